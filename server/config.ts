@@ -0,0 +1,33 @@
+import { existsSync } from 'node:fs';
+import { loadEnvFile } from 'node:process';
+
+// Keys live in the server's environment only; never prefix them with VITE_
+if (existsSync('.env.server')) loadEnvFile('.env.server');
+
+const numberEnv = (name: string, fallback: number) => Number(process.env[name]) || fallback;
+
+export const config = {
+    port: numberEnv('PORT', 8787),
+    googleApiKey: process.env.GOOGLE_API_KEY || '',
+    openAIApiKey: process.env.OPENAI_API_KEY || '',
+    /** Per user, per UTC day. */
+    quotas: {
+        plan: numberEnv('QUOTA_PLANS_PER_DAY', 50),
+        image: numberEnv('QUOTA_IMAGES_PER_DAY', 200),
+    },
+    maxBodyBytes: numberEnv('MAX_BODY_MB', 50) * 1024 * 1024,
+    /** Also append request logs (JSON lines) to this file when set. */
+    logFile: process.env.LOG_FILE || '',
+    /** Built client to serve alongside the API, so one process hosts the whole app. */
+    staticDir: process.env.STATIC_DIR || 'dist',
+    /**
+     * Header an auth proxy in front of the server sets to the signed-in user (and strips
+     * from what clients send). Without it, users are told apart by their remote address.
+     */
+    trustedUserHeader: (process.env.TRUSTED_USER_HEADER || '').toLowerCase(),
+    /** Set when the client is served from another origin; same-origin needs no CORS. */
+    allowedOrigin: process.env.ALLOWED_ORIGIN || '',
+};
+
+if (!config.googleApiKey) console.warn('Missing GOOGLE_API_KEY. Gemini requests will fail.');
+if (!config.openAIApiKey) console.warn('Missing OPENAI_API_KEY. OpenAI requests will fail.');
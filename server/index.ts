@@ -0,0 +1,183 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, resolve, sep } from 'node:path';
+import { config } from './config.ts';
+import { logRequest } from './log.ts';
+import { QuotaTracker } from './quota.ts';
+import { resolveRoute, type Route } from './routes.ts';
+
+const quotas = new QuotaTracker(config.quotas);
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript',
+    '.css': 'text/css',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.ico': 'image/x-icon',
+    '.json': 'application/json',
+    '.woff2': 'font/woff2',
+};
+
+// Headers the client sends that the SDKs need; everything else is dropped before forwarding
+const CORS_HEADERS = 'content-type, x-goog-api-client, x-goog-api-key';
+
+class HttpError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+// Shaped like both vendors' errors so the client's existing error handling reads the message
+const sendError = (res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) =>
+    sendJson(res, status, { error: { code: status, message } }, headers);
+
+const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > config.maxBodyBytes) throw new HttpError(413, 'Request body too large');
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+};
+
+/**
+ * Identifies the caller for quotas and logs from what the client can't choose: the
+ * header set by a trusted auth proxy when one is configured, else the remote address.
+ */
+const userFor = (req: IncomingMessage): string => {
+    if (config.trustedUserHeader) {
+        const header = req.headers[config.trustedUserHeader];
+        const id = typeof header === 'string' ? header.trim() : '';
+        if (!id) throw new HttpError(401, 'Not signed in');
+        return id.slice(0, 256);
+    }
+    return req.socket.remoteAddress || 'unknown';
+};
+
+const modelFromBody = (route: Route, body: Buffer, contentType: string): string | undefined => {
+    if (route.model) return route.model;
+    if (!contentType.includes('application/json')) return undefined;
+    try {
+        const { model } = JSON.parse(body.toString('utf8'));
+        return typeof model === 'string' ? model : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+const proxy = async (req: IncomingMessage, res: ServerResponse, route: Route) => {
+    const user = userFor(req);
+    const startedAt = Date.now();
+    const body = await readBody(req);
+    const contentType = req.headers['content-type'] || 'application/json';
+    const entry = { user, action: route.action, provider: route.provider, model: modelFromBody(route, body, contentType), requestBytes: body.length };
+
+    const quota = quotas.reserve(user, route.action);
+    if ('retryAfterMs' in quota) {
+        const message = `Daily ${route.action === 'plan' ? 'planning' : 'image'} quota reached`;
+        logRequest({ ...entry, status: 429, durationMs: 0, responseBytes: 0, error: message });
+        return sendError(res, 429, message, { 'Retry-After': String(Math.ceil(quota.retryAfterMs / 1000)) });
+    }
+
+    // Stop paying for a render nobody is waiting for
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    let upstream: Response;
+    try {
+        upstream = await fetch(route.upstreamUrl, {
+            method: 'POST',
+            signal: controller.signal,
+            headers: { 'Content-Type': contentType, ...route.authHeaders },
+            body,
+        });
+    } catch (error) {
+        quotas.release(quota.reservation);
+        if (controller.signal.aborted) return;
+        const message = error instanceof Error ? error.message : String(error);
+        logRequest({ ...entry, status: 502, durationMs: Date.now() - startedAt, responseBytes: 0, error: message });
+        return sendError(res, 502, `Upstream request failed: ${message}`);
+    }
+
+    let responseBody: Buffer;
+    try {
+        responseBody = Buffer.from(await upstream.arrayBuffer());
+    } catch (error) {
+        quotas.release(quota.reservation);
+        throw error;
+    }
+    if (!upstream.ok) quotas.release(quota.reservation);
+    logRequest({ ...entry, status: upstream.status, durationMs: Date.now() - startedAt, responseBytes: responseBody.length });
+
+    const headers: Record<string, string> = { 'Content-Type': upstream.headers.get('content-type') || 'application/json' };
+    const retryAfter = upstream.headers.get('retry-after');
+    if (retryAfter) headers['Retry-After'] = retryAfter;
+    res.writeHead(upstream.status, headers);
+    res.end(responseBody);
+};
+
+/**
+ * Serves the built client, falling back to index.html for unknown paths.
+ */
+const serveStatic = async (res: ServerResponse, pathname: string) => {
+    const root = resolve(config.staticDir);
+    let file = resolve(join(root, decodeURIComponent(pathname)));
+    if (file !== root && !file.startsWith(root + sep)) return sendError(res, 403, 'Forbidden');
+
+    const info = await stat(file).catch(() => null);
+    if (!info?.isFile()) file = join(root, 'index.html');
+
+    const content = await readFile(file).catch(() => null);
+    if (!content) return sendError(res, 404, 'Not found');
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] || 'application/octet-stream' });
+    res.end(content);
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    if (config.allowedOrigin) {
+        res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+        res.setHeader('Access-Control-Allow-Headers', CORS_HEADERS);
+        res.setHeader('Access-Control-Expose-Headers', 'retry-after');
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204);
+            return res.end();
+        }
+    }
+
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname.startsWith('/api/')) {
+        const route = resolveRoute(pathname);
+        if (!route) return sendError(res, 404, `Unknown endpoint ${pathname}`);
+        if (req.method !== 'POST') return sendError(res, 405, 'Method not allowed');
+        return proxy(req, res, route);
+    }
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') return sendError(res, 405, 'Method not allowed');
+    return serveStatic(res, pathname);
+};
+
+createServer((req, res) => {
+    handle(req, res).catch(error => {
+        console.error('Request failed', error);
+        if (res.headersSent) return res.destroy();
+        if (error instanceof HttpError) return sendError(res, error.status, error.message);
+        sendError(res, 500, 'Internal server error');
+    });
+}).listen(config.port, () => {
+    console.log(`ProDeck server listening on http://localhost:${config.port}`);
+});
@@ -0,0 +1,28 @@
+import { appendFile } from 'node:fs/promises';
+import { config } from './config.ts';
+
+export interface RequestLogEntry {
+    user: string;
+    action: string;
+    provider: string;
+    model?: string;
+    status: number;
+    durationMs: number;
+    requestBytes: number;
+    responseBytes: number;
+    error?: string;
+}
+
+/**
+ * Writes one JSON line per proxied request to stdout, and to LOG_FILE when set.
+ * Prompts and images are deliberately left out.
+ */
+export const logRequest = (entry: RequestLogEntry): void => {
+    const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+    console.log(line);
+    if (config.logFile) {
+        appendFile(config.logFile, line + '\n').catch(error => {
+            console.error('Failed to write request log', error);
+        });
+    }
+};
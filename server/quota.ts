@@ -0,0 +1,65 @@
+import type { Action } from './routes.ts';
+
+type Bucket = 'plan' | 'image';
+
+const bucketFor = (action: Action): Bucket => (action === 'plan' ? 'plan' : 'image');
+
+const utcDay = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+const msUntilNextUtcDay = (now: number) => {
+    const next = new Date(now);
+    next.setUTCHours(24, 0, 0, 0);
+    return next.getTime() - now;
+};
+
+/** A request's slot in a user's quota, held from before the vendor call until it settles. */
+export interface QuotaReservation {
+    user: string;
+    bucket: Bucket;
+    day: string;
+}
+
+/**
+ * Per-user daily request counts, kept in memory: a restart resets everyone's
+ * usage, which is acceptable for a budget guard rather than billing.
+ */
+export class QuotaTracker {
+    private limits: Record<Bucket, number>;
+    private day = '';
+    private usage = new Map<string, Record<Bucket, number>>();
+
+    constructor(limits: Record<Bucket, number>) {
+        this.limits = limits;
+    }
+
+    /**
+     * Takes a slot in the user's quota before the request is forwarded, so parallel
+     * requests can't all pass on the same remaining count. Returns how long until the
+     * quota resets instead when it is used up.
+     */
+    reserve(user: string, action: Action, now: number = Date.now()): { reservation: QuotaReservation } | { retryAfterMs: number } {
+        this.rollOver(now);
+        const bucket = bucketFor(action);
+        const counts = this.usage.get(user) ?? { plan: 0, image: 0 };
+        if (counts[bucket] >= this.limits[bucket]) return { retryAfterMs: msUntilNextUtcDay(now) };
+        counts[bucket]++;
+        this.usage.set(user, counts);
+        return { reservation: { user, bucket, day: this.day } };
+    }
+
+    /** Gives back the slot of a request the vendor didn't accept. */
+    release({ user, bucket, day }: QuotaReservation): void {
+        // After a rollover the slot belongs to a day that has already been reset
+        if (day !== this.day) return;
+        const counts = this.usage.get(user);
+        if (counts && counts[bucket] > 0) counts[bucket]--;
+    }
+
+    private rollOver(now: number) {
+        const today = utcDay(now);
+        if (today !== this.day) {
+            this.day = today;
+            this.usage.clear();
+        }
+    }
+}
@@ -0,0 +1,54 @@
+import { config } from './config.ts';
+
+export type Action = 'plan' | 'generate' | 'edit';
+
+export interface Route {
+    action: Action;
+    provider: 'gemini' | 'openai';
+    upstreamUrl: string;
+    /** Credentials added to the upstream request. */
+    authHeaders: Record<string, string>;
+    /** Model from the URL, when the vendor puts it there (Gemini). */
+    model?: string;
+}
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com';
+const OPENAI_API_URL = 'https://api.openai.com/v1';
+
+// Only content generation is forwarded, so the proxy can't be used to reach the rest of either API
+const GEMINI_PATH = /^\/api\/gemini\/(plan|generate|edit)(\/v1(?:beta)?\/models\/([\w.-]+):generateContent)$/;
+
+const OPENAI_PATHS: Record<string, { action: Action; path: string }> = {
+    '/api/openai/plan/chat/completions': { action: 'plan', path: '/chat/completions' },
+    '/api/openai/generate': { action: 'generate', path: '/images/generations' },
+    '/api/openai/edit': { action: 'edit', path: '/images/edits' },
+};
+
+/**
+ * Maps a proxy path onto the vendor endpoint it stands for, or null if the
+ * path isn't one the client is allowed to call.
+ */
+export const resolveRoute = (pathname: string): Route | null => {
+    const gemini = GEMINI_PATH.exec(pathname);
+    if (gemini) {
+        return {
+            action: gemini[1] as Action,
+            provider: 'gemini',
+            upstreamUrl: `${GEMINI_API_URL}${gemini[2]}`,
+            authHeaders: { 'x-goog-api-key': config.googleApiKey },
+            model: gemini[3],
+        };
+    }
+
+    const openai = OPENAI_PATHS[pathname];
+    if (openai) {
+        return {
+            action: openai.action,
+            provider: 'openai',
+            upstreamUrl: `${OPENAI_API_URL}${openai.path}`,
+            authHeaders: { 'Authorization': `Bearer ${config.openAIApiKey}` },
+        };
+    }
+
+    return null;
+};
@@ -0,0 +1,204 @@
+import React, { useRef } from 'react';
+import { ImagePlus, Loader2, Palette, Plus, Sparkles, X } from 'lucide-react';
+import { LOGO_CORNERS, TITLE_PLACEMENTS } from '../services/brandKit';
+import type { BrandColor, BrandKit, SlideCorner, TitlePlacement } from '../types/deck';
+
+interface BrandKitEditorProps {
+    kit?: BrandKit;
+    isExtracting: boolean;
+    /** Re-analyzes the reference images, replacing the current kit. */
+    onExtract: () => void;
+    onChange: (kit: BrandKit) => void;
+}
+
+const fieldLabel = "text-[10px] uppercase font-bold tracking-wide text-gray-400";
+const textInput = "w-full text-sm bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 focus:ring-2 focus:ring-blue-500 outline-none";
+
+const readAsDataUrl = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(file);
+    });
+};
+
+export const BrandKitEditor: React.FC<BrandKitEditorProps> = ({ kit, isExtracting, onExtract, onChange }) => {
+    const logoInputRef = useRef<HTMLInputElement>(null);
+
+    const updateColor = (index: number, changes: Partial<BrandColor>) => {
+        if (!kit) return;
+        onChange({ ...kit, palette: kit.palette.map((c, i) => i === index ? { ...c, ...changes } : c) });
+    };
+
+    const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!kit || !file) return;
+        const imageData = await readAsDataUrl(file);
+        onChange({ ...kit, logo: { imageData, placement: kit.logo?.placement ?? 'top-right' } });
+    };
+
+    return (
+        <div className="bg-white/80 backdrop-blur-xl rounded-3xl p-6 shadow-sm border border-white/20 ring-1 ring-black/5 space-y-5">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Palette size={18} className="text-gray-400" />
+                    <h2 className="text-lg font-semibold text-gray-900">Brand kit</h2>
+                </div>
+                <button
+                    onClick={onExtract}
+                    disabled={isExtracting}
+                    className="text-xs px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 flex items-center gap-1 disabled:opacity-50"
+                >
+                    {isExtracting ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+                    {kit ? 'Re-extract from refs' : 'Extract from refs'}
+                </button>
+            </div>
+
+            {!kit ? (
+                <p className="text-sm text-gray-500">
+                    Colors, fonts, logo and layout rules are read from your style refs when you generate.
+                    Extract now to review and adjust them first.
+                </p>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                        <span className={fieldLabel}>Palette</span>
+                        <div className="flex flex-wrap gap-2">
+                            {kit.palette.map((color, i) => (
+                                <div key={i} className="relative group flex items-center gap-1 bg-gray-50 border border-gray-200 rounded-lg p-1">
+                                    <input
+                                        type="color"
+                                        value={color.hex}
+                                        onChange={(e) => updateColor(i, { hex: e.target.value.toUpperCase() })}
+                                        className="w-7 h-7 rounded cursor-pointer border-none bg-transparent"
+                                        title={color.hex}
+                                    />
+                                    <input
+                                        value={color.role}
+                                        onChange={(e) => updateColor(i, { role: e.target.value })}
+                                        className="w-20 text-xs bg-transparent outline-none text-gray-700"
+                                    />
+                                    <button
+                                        onClick={() => onChange({ ...kit, palette: kit.palette.filter((_, j) => j !== i) })}
+                                        className="absolute -top-2 -right-2 bg-white rounded-full p-0.5 shadow-md opacity-0 group-hover:opacity-100 transition-opacity"
+                                    >
+                                        <X size={10} className="text-red-500" />
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                onClick={() => onChange({ ...kit, palette: [...kit.palette, { hex: '#000000', role: 'accent' }] })}
+                                title="Add color"
+                                className="w-9 h-9 rounded-lg border-2 border-dashed border-gray-200 flex items-center justify-center text-gray-400 hover:border-blue-500 hover:text-blue-500 transition-colors"
+                            >
+                                <Plus size={14} />
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2 pt-2">
+                            <label className="space-y-1">
+                                <span className={fieldLabel}>Heading font</span>
+                                <input
+                                    value={kit.fonts.heading}
+                                    onChange={(e) => onChange({ ...kit, fonts: { ...kit.fonts, heading: e.target.value } })}
+                                    className={textInput}
+                                />
+                            </label>
+                            <label className="space-y-1">
+                                <span className={fieldLabel}>Body font</span>
+                                <input
+                                    value={kit.fonts.body}
+                                    onChange={(e) => onChange({ ...kit, fonts: { ...kit.fonts, body: e.target.value } })}
+                                    className={textInput}
+                                />
+                            </label>
+                        </div>
+                    </div>
+
+                    <div className="space-y-3">
+                        <div className="flex items-start gap-3">
+                            <div className="space-y-1">
+                                <span className={fieldLabel}>Logo</span>
+                                <div className="relative group w-20 h-14 bg-gray-50 border border-gray-200 rounded-lg flex items-center justify-center overflow-hidden">
+                                    {kit.logo ? (
+                                        <>
+                                            <img src={kit.logo.imageData} alt="logo" className="max-w-full max-h-full object-contain" />
+                                            <button
+                                                onClick={() => onChange({ ...kit, logo: undefined })}
+                                                className="absolute top-0.5 right-0.5 bg-white rounded-full p-0.5 shadow-md opacity-0 group-hover:opacity-100 transition-opacity"
+                                            >
+                                                <X size={10} className="text-red-500" />
+                                            </button>
+                                        </>
+                                    ) : (
+                                        <button
+                                            onClick={() => logoInputRef.current?.click()}
+                                            title="Upload logo"
+                                            className="text-gray-400 hover:text-blue-500"
+                                        >
+                                            <ImagePlus size={18} />
+                                        </button>
+                                    )}
+                                    <input
+                                        type="file"
+                                        ref={logoInputRef}
+                                        className="hidden"
+                                        accept="image/*"
+                                        onChange={handleLogoUpload}
+                                    />
+                                </div>
+                            </div>
+                            {kit.logo && (
+                                <label className="space-y-1 flex-1">
+                                    <span className={fieldLabel}>Logo corner</span>
+                                    <select
+                                        value={kit.logo.placement}
+                                        onChange={(e) => kit.logo && onChange({ ...kit, logo: { ...kit.logo, placement: e.target.value as SlideCorner } })}
+                                        className={textInput}
+                                    >
+                                        {LOGO_CORNERS.map(corner => <option key={corner} value={corner}>{corner}</option>)}
+                                    </select>
+                                </label>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="space-y-1">
+                                <span className={fieldLabel}>Title placement</span>
+                                <select
+                                    value={kit.titlePlacement}
+                                    onChange={(e) => onChange({ ...kit, titlePlacement: e.target.value as TitlePlacement })}
+                                    className={textInput}
+                                >
+                                    {TITLE_PLACEMENTS.map(p => <option key={p} value={p}>{p}</option>)}
+                                </select>
+                            </label>
+                            <label className="space-y-1">
+                                <span className={fieldLabel}>Margins: {Math.round(kit.margin * 100)}%</span>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="20"
+                                    value={Math.round(kit.margin * 100)}
+                                    onChange={(e) => onChange({ ...kit, margin: Number(e.target.value) / 100 })}
+                                    className="accent-black h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer w-full"
+                                />
+                            </label>
+                        </div>
+
+                        <label className="space-y-1 block">
+                            <span className={fieldLabel}>Style notes</span>
+                            <textarea
+                                value={kit.styleNotes ?? ''}
+                                onChange={(e) => onChange({ ...kit, styleNotes: e.target.value || undefined })}
+                                className={`${textInput} resize-none h-14`}
+                            />
+                        </label>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,32 +1,192 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, Play, Download, Loader2, Image as ImageIcon, X, Edit2, FileUp } from 'lucide-react';
-import { geminiService } from '../services/gemini';
+import { Upload, Play, Download, Loader2, Image as ImageIcon, X, FileUp, Ban, Type, ScanEye, Paintbrush, ChevronDown, FolderOpen, Save, Presentation } from 'lucide-react';
+import { extractBrandKit } from '../services/brandKit';
+import { DeckArchiveError, exportDeckArchive, importDeckArchive, PRODECK_EXTENSION } from '../services/deckArchive';
+import { ocrService } from '../services/ocr';
 import { imageService, type ImageModel } from '../services/imageService';
-import { exportPresentation } from '../utils/pptxExport';
-import JSZip from 'jszip';
+import { projectStore, type DeckProject } from '../services/projectStore';
+import { downloadBlob, listExporters, type DeckExporter } from '../services/exporters';
+import { GenerationQueue, type ProviderLimits, type QueueProgress } from '../services/generationQueue';
+import { DEFAULT_PLANNER, getPlanner, hasPlanner, listPlanners, type PlannedSlide } from '../services/planners';
+import { DEFAULT_IMAGE_PROVIDER, defaultProviderLimits, getImageProvider, hasImageProvider, listImageProviders } from '../services/providers';
+import { RequestCancelledError } from '../services/requestControl';
+import { classifyError } from '../services/errors';
+import { withRetry } from '../services/retry';
+import { loadSetting, saveSetting } from '../services/settings';
+import { checkConsistency, matchDeckPrompt, type ConsistencyInput } from '../utils/consistency';
+import { readDataTables } from '../utils/csv';
+import { bindContentData } from '../utils/dataBinding';
+import { buildEditMask, type MaskShape } from '../utils/mask';
+import { exportPresentation, type ExportMode } from '../utils/pptxExport';
+import { importPresentation, type ImportedDeck } from '../utils/pptxImport';
+import { composeSlidePrompt } from '../utils/slideContent';
+import { createSlide, duplicateSlide, renumberSlides, revisionEffect, withPlan } from '../utils/slides';
+import { measureFidelity, plannedTextLines } from '../utils/textFidelity';
+import { createVersion, getPreviousVersion, MAX_VARIANTS, withActiveVersion, withChosenVariant, withNewVersion, withVariants } from '../utils/slideVersions';
+import { BrandKitEditor } from './BrandKitEditor';
+import { DeckEditPanel, type DeckEditChange } from './DeckEditPanel';
+import { OutlineEditor } from './OutlineEditor';
+import { PresenterMode } from './PresenterMode';
+import { ProjectList } from './ProjectList';
+import { SlideCard } from './SlideCard';
+import { SlideSorter } from './SlideSorter';
+import { VersionHistory } from './VersionHistory';
+import type { BrandKit, DeckStep, Slide, VariantSettings } from '../types/deck';
 
-interface Slide {
-    slideNumber: number;
-    title: string;
-    visualPrompt: string;
-    imageData?: string; // base64
-    status: 'pending' | 'generating' | 'done' | 'error';
-}
+const AUTOSAVE_DELAY_MS = 800;
+
+type ProjectSnapshot = Omit<DeckProject, 'updatedAt'>;
+
+type RenderedImage = ConsistencyInput & { versionId: string };
+
+const SINGLE_RENDER: VariantSettings = { count: 1, providers: [] };
+
+/**
+ * The provider of each variant of a render: the chosen providers in turn, or the deck's
+ * image model when none are chosen (or none of them is configured here).
+ */
+const variantProviders = (variants: VariantSettings, imageModel: ImageModel): ImageModel[] => {
+    const chosen = variants.providers.filter(hasImageProvider);
+    const pool = chosen.length > 0 ? chosen : [imageModel];
+    return Array.from({ length: Math.max(1, variants.count) }, (_, i) => pool[i % pool.length]);
+};
+
+const currentImages = (slides: Slide[]): RenderedImage[] =>
+    slides.flatMap(s => s.imageData && s.activeVersionId ? [{ id: s.id, imageData: s.imageData, versionId: s.activeVersionId }] : []);
+
+const deriveProjectName = (context: string) => {
+    const firstLine = context.trim().split('\n')[0];
+    if (!firstLine) return 'Untitled deck';
+    return firstLine.length > 48 ? `${firstLine.slice(0, 48)}…` : firstLine;
+};
+
+const isEmptyProject = (project: ProjectSnapshot) =>
+    !project.context.trim() &&
+    project.refImages.length === 0 &&
+    project.contextFiles.length === 0 &&
+    project.slides.length === 0;
+
+const formatEta = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `~${seconds}s left`;
+    return `~${Math.round(seconds / 60)} min left`;
+};
+
+const saveProject = (project: ProjectSnapshot) =>
+    projectStore.save({ ...project, updatedAt: Date.now() })
+        .catch(error => console.error("Failed to save project", error));
 
 export const DeckBuilder: React.FC = () => {
     const [context, setContext] = useState('');
     const [refImages, setRefImages] = useState<File[]>([]);
     const [contextFiles, setContextFiles] = useState<File[]>([]);
+    const [brandKit, setBrandKit] = useState<BrandKit | undefined>();
+    const [isExtractingBrand, setIsExtractingBrand] = useState(false);
     const [slides, setSlides] = useState<Slide[]>([]);
     const [slideCount, setSlideCount] = useState<number>(6);
-    const [currentStep, setCurrentStep] = useState<'input' | 'planning' | 'generating' | 'preview'>('input');
+    const [currentStep, setCurrentStep] = useState<DeckStep>('input');
     const [isImporting, setIsImporting] = useState(false);
-    const [imageModel, setImageModel] = useState<ImageModel>('gemini');
+    // An imported deck to re-plan in the style of the refs, instead of planning from scratch
+    const [restyleSource, setRestyleSource] = useState<(ImportedDeck & { fileName: string }) | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [showExportMenu, setShowExportMenu] = useState(false);
+    const [isPresenting, setIsPresenting] = useState(false);
+    const [isCheckingConsistency, setIsCheckingConsistency] = useState(false);
+    const [imageModel, setImageModel] = useState<ImageModel>(DEFAULT_IMAGE_PROVIDER);
+    const [plannerId, setPlannerId] = useState<string>(DEFAULT_PLANNER);
+    const [variants, setVariants] = useState<VariantSettings>(SINGLE_RENDER);
+    const [projectId, setProjectId] = useState<string>(() => crypto.randomUUID());
+    const [projectName, setProjectName] = useState('');
+    const [createdAt, setCreatedAt] = useState(() => Date.now());
+    const [providerLimits, setProviderLimits] = useState<Record<ImageModel, ProviderLimits>>(
+        () => loadSetting('providerLimits', defaultProviderLimits())
+    );
+    const [progress, setProgress] = useState<QueueProgress | null>(null);
+    const imageProviders = listImageProviders();
+    const selectedProvider = getImageProvider(imageModel);
+    const currentLimits = providerLimits[imageModel] ?? selectedProvider.defaultLimits;
+    const queueRef = useRef<GenerationQueue | null>(null);
+    // Identifies the render run in progress, so a run abandoned by switching projects doesn't move the step on
+    const runRef = useRef<object | null>(null);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
     const contextInputRef = useRef<HTMLInputElement>(null);
     const pptInputRef = useRef<HTMLInputElement>(null);
+    const restyleInputRef = useRef<HTMLInputElement>(null);
+    const archiveInputRef = useRef<HTMLInputElement>(null);
+
+    const project = useMemo<ProjectSnapshot>(() => ({
+        id: projectId,
+        name: projectName || deriveProjectName(context),
+        createdAt,
+        context,
+        slideCount,
+        imageModel,
+        planner: plannerId,
+        variants,
+        refImages,
+        contextFiles,
+        brandKit,
+        slides,
+        step: currentStep,
+    }), [projectId, projectName, createdAt, context, slideCount, imageModel, plannerId, variants, refImages, contextFiles, brandKit, slides, currentStep]);
+
+    // Autosave: every change to the deck is persisted after a short debounce
+    useEffect(() => {
+        if (isEmptyProject(project)) return;
+        const timer = setTimeout(() => saveProject(project), AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [project]);
+
+    /**
+     * Flushes the current deck to the store (skipping the debounce) before switching away from it.
+     */
+    const persistCurrentProject = async () => {
+        if (!isEmptyProject(project)) {
+            await saveProject(project);
+        }
+    };
+
+    const loadProject = (next: ProjectSnapshot) => {
+        setProjectId(next.id);
+        setProjectName(next.name);
+        setCreatedAt(next.createdAt);
+        setContext(next.context);
+        setSlideCount(next.slideCount);
+        // The deck may have used a provider that isn't configured in this environment
+        setImageModel(hasImageProvider(next.imageModel) ? next.imageModel : DEFAULT_IMAGE_PROVIDER);
+        setPlannerId(hasPlanner(next.planner) ? next.planner : DEFAULT_PLANNER);
+        setVariants(next.variants ?? SINGLE_RENDER);
+        setRefImages(next.refImages);
+        setContextFiles(next.contextFiles);
+        setBrandKit(next.brandKit);
+        setSlides(next.slides);
+        setCurrentStep(next.step);
+        setRestyleSource(null);
+    };
+
+    const handleOpenProject = async (next: DeckProject) => {
+        cancelRun();
+        await persistCurrentProject();
+        loadProject(next);
+    };
+
+    /**
+     * Starts a fresh deck from the same inputs. The previous deck stays in the project list.
+     */
+    const handleStartOver = async () => {
+        cancelRun();
+        await persistCurrentProject();
+        loadProject({
+            ...project,
+            id: crypto.randomUUID(),
+            name: '',
+            createdAt: Date.now(),
+            slides: [],
+            step: 'input',
+        });
+    };
 
     const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files) {
@@ -46,89 +206,68 @@ export const DeckBuilder: React.FC = () => {
 
         setIsImporting(true);
         try {
-            const zip = await JSZip.loadAsync(file);
-            const newSlides: Slide[] = [];
-
-            // 1. Identify slides from ppt/presentation.xml or just by scanning ppt/slides/slide*.xml
-            // A safer heuristic for generated decks is sorting slideN.xml files
-            const slideFiles = Object.keys(zip.files).filter(path =>
-                path.match(/^ppt\/slides\/slide\d+\.xml$/)
-            ).sort((a, b) => {
-                const numA = parseInt(a.match(/slide(\d+)\.xml/)![1]);
-                const numB = parseInt(b.match(/slide(\d+)\.xml/)![1]);
-                return numA - numB;
-            });
-
-            for (const slidePath of slideFiles) {
-                const slideNum = parseInt(slidePath.match(/slide(\d+)\.xml/)![1]);
-
-                // 2. Find relationships for this slide
-                // Rel path is ppt/slides/_rels/slideX.xml.rels
-                const relPath = slidePath.replace('ppt/slides/', 'ppt/slides/_rels/') + '.rels';
-                const relFile = zip.file(relPath);
-
-                if (relFile) {
-                    const relXmlText = await relFile.async('text');
-                    const parser = new DOMParser();
-                    const relDoc = parser.parseFromString(relXmlText, "text/xml");
-
-                    // Find image relationship
-                    // Look for Type=".../image"
-                    const relationships = relDoc.getElementsByTagName('Relationship');
-                    let targetPath = '';
-
-                    for (let i = 0; i < relationships.length; i++) {
-                        const rel = relationships[i];
-                        if (rel.getAttribute('Type')?.includes('/image')) {
-                            targetPath = rel.getAttribute('Target') || '';
-                            break;
-                        }
-                    }
-
-                    if (targetPath) {
-                        // Resolve target path (usually relative to slide, e.g. "../media/image1.png")
-                        // If it starts with .., resolve it. ppt/slides/ + ../media -> ppt/media
-                        let fullPath = '';
-                        if (targetPath.startsWith('../')) {
-                            fullPath = 'ppt/' + targetPath.replace('../', '');
-                        } else {
-                            fullPath = 'ppt/slides/' + targetPath;
-                        }
-
-                        // 3. Extract image
-                        const imgFile = zip.file(fullPath);
-                        if (imgFile) {
-                            const imgBase64 = await imgFile.async('base64');
-                            const imgExt = fullPath.split('.').pop() || 'png';
-                            // Infer MIME type
-                            const mime = imgExt === 'jpg' || imgExt === 'jpeg' ? 'image/jpeg' : 'image/png';
-
-                            newSlides.push({
-                                slideNumber: slideNum,
-                                title: `Imported Slide ${slideNum}`,
-                                visualPrompt: "Imported slide content", // Placeholder
-                                status: 'done',
-                                imageData: `data:${mime};base64,${imgBase64}`
-                            });
-                        }
-                    }
-                }
+            const deck = await importPresentation(file);
+            if (deck.slides.length > 0) {
+                // Opened as a new project, so a saved deck being shown isn't overwritten by the import
+                cancelRun();
+                await persistCurrentProject();
+                loadProject({
+                    ...project,
+                    id: crypto.randomUUID(),
+                    name: deck.title,
+                    createdAt: Date.now(),
+                    context: project.context || deck.title,
+                    slides: deck.slides,
+                    // Decks of pictures come back as they were; anything else needs its recovered content reviewed and rendered
+                    step: deck.slides.every(slide => slide.imageData) ? 'preview' : 'outline',
+                });
+            } else {
+                alert("No slides found in this PPTX.");
             }
+        } catch (error) {
+            console.error("Failed to parse PPTX", error);
+            alert("Failed to load PPTX. Ensure it is a valid PowerPoint file.");
+        } finally {
+            setIsImporting(false);
+            if (pptInputRef.current) pptInputRef.current.value = '';
+        }
+    };
 
-            if (newSlides.length > 0) {
-                setSlides(newSlides);
-                // Try to infer context from filename if empty? No, keep it simple.
-                setCurrentStep('preview');
+    const handleRestyleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setIsImporting(true);
+        try {
+            const deck = await importPresentation(file);
+            if (deck.slides.length > 0) {
+                setRestyleSource({ ...deck, fileName: file.name });
+                setContext(prev => prev || deck.title);
             } else {
-                alert("No slides/images found in this PPTX.");
+                alert("No slides found in this PPTX.");
             }
-
         } catch (error) {
             console.error("Failed to parse PPTX", error);
             alert("Failed to load PPTX. Ensure it is a valid PowerPoint file.");
         } finally {
             setIsImporting(false);
-            if (pptInputRef.current) pptInputRef.current.value = '';
+            if (restyleInputRef.current) restyleInputRef.current.value = '';
+        }
+    };
+
+    const handleOpenArchive = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setIsImporting(true);
+        try {
+            await handleOpenProject(await importDeckArchive(file));
+        } catch (error) {
+            console.error("Failed to open deck file", error);
+            alert(error instanceof DeckArchiveError ? error.message : "Failed to open this deck file. Check console.");
+        } finally {
+            setIsImporting(false);
+            if (archiveInputRef.current) archiveInputRef.current.value = '';
         }
     };
 
@@ -140,48 +279,88 @@ export const DeckBuilder: React.FC = () => {
         setContextFiles(prev => prev.filter((_, i) => i !== index));
     };
 
-    const [editingSlide, setEditingSlide] = useState<number | null>(null);
-    const [editInstruction, setEditInstruction] = useState('');
+    const [historySlide, setHistorySlide] = useState<string | null>(null);
 
-    const handleEditStart = (slideNumber: number) => {
-        setEditingSlide(slideNumber);
-        setEditInstruction('');
+    const updateSlide = (slideId: string, update: (slide: Slide) => Slide) => {
+        setSlides(prev => prev.map(s => s.id === slideId ? update(s) : s));
     };
 
-    const handleEditCancel = () => {
-        setEditingSlide(null);
-        setEditInstruction('');
+    /**
+     * Reads the text off a rendered version and records how well it matches the
+     * planned copy. Runs in the background; a slide that has moved on to another
+     * version meanwhile keeps its state.
+     */
+    const verifyText = async (slide: Slide, versionId: string, imageData: string) => {
+        const planned = plannedTextLines(slide);
+        if (planned.length === 0) return;
+        try {
+            const textFidelity = measureFidelity(planned, await ocrService.recognize(imageData), versionId);
+            updateSlide(slide.id, s => s.activeVersionId === versionId ? { ...s, textFidelity } : s);
+        } catch (error) {
+            console.error(`Text check failed for slide ${slide.slideNumber}`, error);
+        }
     };
 
-    const handleEditSubmit = async (slideNumber: number) => {
-        if (!editInstruction.trim()) return;
-
-        const slideIndex = slides.findIndex(s => s.slideNumber === slideNumber);
-        if (slideIndex === -1) return;
-
-        const currentSlide = slides[slideIndex];
-        if (!currentSlide.imageData) return;
+    /**
+     * Queues an edit of the slide's current image. With mask shapes, only the marked
+     * area changes. Resolves to the new image, or null if the edit failed or was cancelled.
+     */
+    const handleEditSubmit = async (slide: Slide, instruction: string, maskShapes?: MaskShape[]): Promise<RenderedImage | null> => {
+        const currentImage = slide.imageData;
+        const queue = getQueue();
+        if (!currentImage || queue.isBusy(slide.id)) return null;
 
         // Update status to generating
-        setSlides(prev => prev.map(s =>
-            s.slideNumber === slideNumber ? { ...s, status: 'generating' } : s
-        ));
-        setEditingSlide(null);
+        updateSlide(slide.id, s => ({ ...s, status: 'generating', error: undefined }));
 
         try {
-            const newImageData = await imageService.editSlide(currentSlide.imageData, editInstruction, imageModel);
-
-            setSlides(prev => prev.map(s =>
-                s.slideNumber === slideNumber ? { ...s, imageData: newImageData, status: 'done' } : s
-            ));
+            const mask = maskShapes ? await buildEditMask(currentImage, maskShapes) ?? undefined : undefined;
+            const newImageData = await queue.add({
+                id: slide.id,
+                provider: imageModel,
+                run: (signal) => withRetry(
+                    () => imageService.editSlide(currentImage, instruction, imageModel, signal, mask),
+                    {
+                        signal,
+                        onRetry: (error) => updateSlide(slide.id, s => ({ ...s, error: { kind: error.kind, message: error.message } })),
+                    }
+                ),
+            });
+            const version = createVersion(newImageData, 'edit', { instruction, editArea: mask?.bounds, model: imageModel });
+            updateSlide(slide.id, s => withNewVersion(s, version));
+            verifyText(slide, version.id, newImageData);
+            return { id: slide.id, imageData: newImageData, versionId: version.id };
         } catch (error) {
+            // The current image is untouched by a failed edit, so the slide stays usable
+            if (error instanceof RequestCancelledError) {
+                updateSlide(slide.id, s => ({ ...s, status: 'done', error: undefined }));
+                return null;
+            }
             console.error("Edit failed", error);
-            setSlides(prev => prev.map(s =>
-                s.slideNumber === slideNumber ? { ...s, status: 'error' } : s
-            ));
+            const { kind, message } = classifyError(error);
+            updateSlide(slide.id, s => ({ ...s, status: 'done', error: { kind, message } }));
+            return null;
         }
     };
 
+    const handleRestoreVersion = (slideId: string, versionId: string) => {
+        updateSlide(slideId, s => withActiveVersion(s, versionId));
+    };
+
+    const handleUndo = (slide: Slide) => {
+        const previous = getPreviousVersion(slide);
+        if (previous) handleRestoreVersion(slide.id, previous.id);
+    };
+
+    /**
+     * Reads the numbers of planned charts and tables from the CSV files they are bound to.
+     */
+    const bindPlanData = async (planned: PlannedSlide[]): Promise<PlannedSlide[]> => {
+        const tables = await readDataTables(contextFiles);
+        if (tables.length === 0) return planned;
+        return planned.map(slide => slide.content ? { ...slide, content: bindContentData(slide.content, tables) } : slide);
+    };
+
     const startGeneration = async () => {
         if (!context || refImages.length === 0) {
             alert("Please provide context and at least one reference image.");
@@ -191,49 +370,395 @@ export const DeckBuilder: React.FC = () => {
         setCurrentStep('planning');
 
         try {
-            // 1. Plan Structure
-            const plannedSlides = await geminiService.planDeck(context, refImages, contextFiles, slideCount);
+            // 1. Pin down the brand once, so the plan and every render follow the same rules
+            const kit = brandKit ?? await extractBrandKit(refImages, getPlanner(plannerId));
+            setBrandKit(kit);
 
-            const initialSlides = plannedSlides.map((s: any) => ({
-                ...s,
-                status: 'pending'
-            }));
-
-            setSlides(initialSlides);
-            setCurrentStep('generating');
-
-            // 2. Generate Images Sequentially
-            for (let i = 0; i < initialSlides.length; i++) {
-                setSlides(prev => prev.map((slide, idx) =>
-                    idx === i ? { ...slide, status: 'generating' } : slide
-                ));
-
-                try {
-                    const imageData = await imageService.generateSlide(initialSlides[i].visualPrompt, refImages, imageModel);
-
-                    setSlides(prev => prev.map((slide, idx) =>
-                        idx === i ? { ...slide, imageData, status: 'done' } : slide
-                    ));
-                } catch (err) {
-                    console.error(`Failed to generate slide ${i + 1}`, err);
-                    setSlides(prev => prev.map((slide, idx) =>
-                        idx === i ? { ...slide, status: 'error' } : slide
-                    ));
-                }
+            // 2. Plan Structure, then hand it to the user for review before any image is paid for
+            if (restyleSource) {
+                // Restyling keeps the imported deck's text and order; the planner only re-plans the look
+                const restyled = await getPlanner(plannerId).restyleDeck({
+                    context,
+                    referenceImages: refImages,
+                    contextFiles,
+                    outline: restyleSource.slides,
+                    brandKit: kit,
+                });
+                const bound = await bindPlanData(restyled);
+                setSlides(bound.map((planned, i) => ({ ...createSlide(planned), media: restyleSource.slides[i]?.media })));
+                setRestyleSource(null);
+            } else {
+                const plannedSlides = await getPlanner(plannerId).planDeck({
+                    context,
+                    referenceImages: refImages,
+                    contextFiles,
+                    slideCount,
+                    brandKit: kit,
+                });
+                setSlides((await bindPlanData(plannedSlides)).map(createSlide));
             }
-            setCurrentStep('preview');
+            setCurrentStep('outline');
 
         } catch (error) {
             console.error("Workflow failed", error);
             setCurrentStep('input');
-            alert("Something went wrong. Check console.");
+            alert(`Planning failed: ${error instanceof Error ? error.message : 'check console'}`);
+        }
+    };
+
+    const handleExtractBrand = async () => {
+        setIsExtractingBrand(true);
+        try {
+            setBrandKit(await extractBrandKit(refImages, getPlanner(plannerId)));
+        } catch (error) {
+            console.error("Brand kit extraction failed", error);
+            alert("Could not read a brand kit from these images. Check console.");
+        } finally {
+            setIsExtractingBrand(false);
+        }
+    };
+
+    const handleReplan = async (slideId: string, count: number, guidance: string) => {
+        const index = slides.findIndex(s => s.id === slideId);
+        if (index === -1) return;
+
+        const replanned = await getPlanner(plannerId).replanSlides({
+            context,
+            referenceImages: refImages,
+            contextFiles,
+            outline: slides,
+            index,
+            count,
+            guidance,
+            brandKit,
+        });
+        const replacements = await bindPlanData(replanned);
+
+        setSlides(prev => {
+            const position = prev.findIndex(s => s.id === slideId);
+            if (position === -1) return prev;
+            const next = [...prev];
+            next.splice(position, 1, ...replacements.map(createSlide));
+            return renumberSlides(next);
+        });
+    };
+
+    const handleMoveSlide = (slideId: string, index: number) => {
+        setSlides(prev => {
+            const from = prev.findIndex(s => s.id === slideId);
+            if (from === -1) return prev;
+            const next = [...prev];
+            const [moved] = next.splice(from, 1);
+            next.splice(index, 0, moved);
+            return renumberSlides(next);
+        });
+    };
+
+    const handleDuplicateSlide = (slideId: string) => {
+        const original = slides.find(s => s.id === slideId);
+        if (!original) return;
+        const copy = duplicateSlide(original);
+        setSlides(prev => {
+            const next = [...prev];
+            next.splice(prev.findIndex(s => s.id === slideId) + 1, 0, copy);
+            return renumberSlides(next);
+        });
+        // A copy of a slide that has no image yet gets its own render
+        if (!copy.imageData) renderSlide(copy);
+    };
+
+    const handleDeleteSlide = (slideId: string) => {
+        queueRef.current?.cancel(slideId);
+        setSlides(prev => renumberSlides(prev.filter(s => s.id !== slideId)));
+    };
+
+    /**
+     * Plans a slide from the author's prompt in context of the slides around it, inserts
+     * it at `index` and renders it in the deck's style.
+     */
+    const handleInsertSlide = async (index: number, prompt: string) => {
+        // Anchored to the slide before it, in case the deck changes while the slide is planned
+        const previousId = slides[index - 1]?.id;
+        const planned = await getPlanner(plannerId).insertSlide({
+            context,
+            referenceImages: refImages,
+            contextFiles,
+            outline: slides,
+            index,
+            prompt,
+            brandKit,
+        });
+        const [bound] = await bindPlanData([planned]);
+        const slide = createSlide(bound);
+
+        setSlides(prev => {
+            const previous = prev.findIndex(s => s.id === previousId);
+            const next = [...prev];
+            next.splice(previous === -1 ? Math.min(index, prev.length) : previous + 1, 0, slide);
+            return renumberSlides(next);
+        });
+        renderSlide(slide);
+    };
+
+    const getQueue = () => {
+        if (!queueRef.current) {
+            queueRef.current = new GenerationQueue(providerLimits);
+            queueRef.current.subscribe(setProgress);
+        }
+        return queueRef.current;
+    };
+
+    const handleConcurrencyChange = (concurrency: number) => {
+        const next = { ...providerLimits, [imageModel]: { ...currentLimits, concurrency } };
+        setProviderLimits(next);
+        saveSetting('providerLimits', next);
+        queueRef.current?.setLimits(next);
+    };
+
+    /**
+     * Queues a render of the slide's image prompt. With several variants, each is rolled as
+     * its own request (on the providers in turn) and they are all kept as versions, the first
+     * one active, for the author to pick from. Transient failures are retried with backoff
+     * inside each task; a slide that already has an image keeps it if every variant fails or
+     * is cancelled. Resolves to the active image, or null if no variant came back.
+     */
+    const renderSlide = async (
+        slide: Slide,
+        prompt: string = composeSlidePrompt(slide),
+        variantSettings: VariantSettings = SINGLE_RENDER
+    ): Promise<RenderedImage | null> => {
+        const queue = getQueue();
+        if (queue.isBusy(slide.id)) return null;
+
+        updateSlide(slide.id, s => ({ ...s, status: s.imageData ? s.status : 'pending', error: undefined }));
+
+        const providers = variantProviders(variantSettings, imageModel);
+        const results = await Promise.allSettled(providers.map((provider, i) => queue.add({
+            // The variants share the slide's id as their group, so the slide's cancel stops them all
+            id: providers.length > 1 ? `${slide.id}:${i + 1}` : slide.id,
+            group: slide.id,
+            provider,
+            run: (signal) => {
+                updateSlide(slide.id, s => ({ ...s, status: 'generating' }));
+                return withRetry(
+                    () => imageService.generateSlide(prompt, refImages, provider, signal, brandKit, slide.content?.layout),
+                    {
+                        signal,
+                        onRetry: (error) => updateSlide(slide.id, s => ({ ...s, error: { kind: error.kind, message: error.message } })),
+                    }
+                );
+            },
+        })));
+
+        const versions = results.flatMap((result, i) => result.status === 'fulfilled'
+            ? [createVersion(result.value, 'generate', { instruction: prompt, model: providers[i] })]
+            : []);
+        const failure = results.find((result): result is PromiseRejectedResult =>
+            result.status === 'rejected' && !(result.reason instanceof RequestCancelledError));
+        if (failure) console.error(`Failed to generate slide ${slide.slideNumber}`, failure.reason);
+
+        if (versions.length === 0) {
+            if (!failure) {
+                updateSlide(slide.id, s => ({ ...s, status: s.imageData ? 'done' : 'cancelled', error: undefined }));
+                return null;
+            }
+            const { kind, message } = classifyError(failure.reason);
+            updateSlide(slide.id, s => ({ ...s, status: s.imageData ? 'done' : 'error', error: { kind, message } }));
+            return null;
+        }
+
+        updateSlide(slide.id, s => withVariants(s, versions));
+        verifyText(slide, versions[0].id, versions[0].imageData);
+        return { id: slide.id, imageData: versions[0].imageData, versionId: versions[0].id };
+    };
+
+    /**
+     * Keeps the variant on show as the slide's image, and checks its text if that
+     * hasn't been done yet.
+     */
+    const handlePickVariant = (slide: Slide) => {
+        const { activeVersionId, imageData } = slide;
+        if (!activeVersionId || !imageData) return;
+        updateSlide(slide.id, s => withChosenVariant(s, activeVersionId));
+        if (slide.textFidelity?.versionId !== activeVersionId) verifyText(slide, activeVersionId, imageData);
+    };
+
+    /**
+     * Checks the given images against each other and the brand kit, and records the
+     * issues on their slides, unless a slide has moved on to another version meanwhile.
+     */
+    const runConsistencyCheck = async (images: RenderedImage[]) => {
+        if (images.length === 0) return;
+        setIsCheckingConsistency(true);
+        try {
+            const results = await checkConsistency(images, brandKit);
+            const checkedVersions = new Map(images.map(image => [image.id, image.versionId]));
+            setSlides(prev => prev.map(s => {
+                const versionId = checkedVersions.get(s.id);
+                return versionId && versionId === s.activeVersionId
+                    ? { ...s, consistency: { versionId, issues: results[s.id] ?? [] } }
+                    : s;
+            }));
+        } catch (error) {
+            console.error("Consistency check failed", error);
+        } finally {
+            setIsCheckingConsistency(false);
+        }
+    };
+
+    /**
+     * Regenerates a flagged slide with its consistency fixes added to the prompt,
+     * then re-checks the deck with the new image.
+     */
+    const handleMatchDeck = async (slide: Slide) => {
+        const issues = slide.consistency?.issues ?? [];
+        const rendered = await renderSlide(slide, matchDeckPrompt(composeSlidePrompt(slide), issues));
+        if (!rendered) return;
+        await runConsistencyCheck(currentImages(slides).map(image => image.id === slide.id ? rendered : image));
+    };
+
+    const renderSlides = async () => {
+        const outline = slides;
+        const run = {};
+        runRef.current = run;
+        getQueue().resetProgress();
+        setCurrentStep('generating');
+
+        // 2. Generate Images through the worker pool
+        const rendered = await Promise.all(outline.map(slide => renderSlide(slide, undefined, variants)));
+
+        // Another project may have taken over while this run drained
+        if (runRef.current !== run) return;
+        runRef.current = null;
+        setCurrentStep('preview');
+
+        // 3. Look for slides that drifted from the rest of the deck
+        const previous = currentImages(outline);
+        await runConsistencyCheck(outline.flatMap((slide, i) => rendered[i] ?? previous.find(image => image.id === slide.id) ?? []));
+    };
+
+    /**
+     * Interprets a deck-wide instruction into changes to the slides it affects.
+     */
+    const handlePlanDeckEdit = async (instruction: string): Promise<DeckEditChange[]> => {
+        const outline = slides;
+        const revisions = await getPlanner(plannerId).reviseDeck({
+            context,
+            referenceImages: refImages,
+            contextFiles,
+            outline,
+            instruction,
+            brandKit,
+        });
+        const boundSlides = await bindPlanData(revisions.map(revision => revision.slide));
+        return revisions.map((revision, i) => ({ slide: outline[revision.index], revision: { ...revision, slide: boundSlides[i] } }));
+    };
+
+    /**
+     * Applies reviewed deck changes: every slide takes its revised plan, then the ones
+     * whose image has to change are edited or re-rendered as one batch, and the deck is
+     * checked for consistency again.
+     */
+    const handleApplyDeckEdit = async (changes: DeckEditChange[]) => {
+        const revised = changes.flatMap(({ slide, revision }) => {
+            // The slide may have been removed since the changes were planned
+            const current = slides.find(s => s.id === slide.id);
+            return current ? [{ slide: withPlan(current, revision.slide), effect: revisionEffect(current, revision), revision }] : [];
+        });
+        const plans = new Map(revised.map(({ slide, revision }) => [slide.id, revision.slide]));
+        setSlides(prev => prev.map(s => {
+            const plan = plans.get(s.id);
+            return plan ? withPlan(s, plan) : s;
+        }));
+
+        const rendered = await Promise.all(revised.map(({ slide, effect, revision }) =>
+            effect === 'edit' && revision.editInstruction ? handleEditSubmit(slide, revision.editInstruction)
+                : effect === 'render' ? renderSlide(slide)
+                : Promise.resolve(null)
+        ));
+        const renderedById = new Map(rendered.flatMap(image => image ? [[image.id, image]] : []));
+        if (renderedById.size === 0) return;
+        await runConsistencyCheck(currentImages(slides).map(image => renderedById.get(image.id) ?? image));
+    };
+
+    const cancelRun = () => {
+        runRef.current = null;
+        queueRef.current?.cancelAll();
+    };
+
+    /**
+     * Makes sure every slide with planned text has a text-free background for its
+     * current version, rendering the missing ones through the queue.
+     */
+    const prepareBackgrounds = async (): Promise<Slide[]> => {
+        const queue = getQueue();
+        return Promise.all(slides.map(async (slide) => {
+            const { imageData, activeVersionId, content } = slide;
+            if (!imageData || !activeVersionId || !content || slide.background?.versionId === activeVersionId) return slide;
+
+            try {
+                const backgroundData = await queue.add({
+                    id: `${slide.id}:background`,
+                    provider: imageModel,
+                    run: (signal) => withRetry(() => imageService.removeText(imageData, imageModel, signal), { signal }),
+                });
+                const background = { versionId: activeVersionId, imageData: backgroundData };
+                updateSlide(slide.id, s => ({ ...s, background }));
+                return { ...slide, background };
+            } catch (error) {
+                // The slide is exported as a picture instead
+                console.error(`Failed to prepare background for slide ${slide.slideNumber}`, error);
+                return slide;
+            }
+        }));
+    };
+
+    const handleExport = async (mode: ExportMode) => {
+        setIsExporting(true);
+        try {
+            const exportSlides = mode === 'editable' ? await prepareBackgrounds() : slides;
+            await exportPresentation(exportSlides, mode, brandKit);
+        } catch (error) {
+            console.error("Export failed", error);
+            alert("Export failed. Check console.");
+        } finally {
+            setIsExporting(false);
         }
     };
 
-    const handleExport = () => {
-        exportPresentation(slides);
+    const handleExportAs = async (exporter: DeckExporter) => {
+        setShowExportMenu(false);
+        setIsExporting(true);
+        try {
+            const blob = await exporter.export({ title: project.name, slides, brandKit });
+            downloadBlob(blob, `ProDeck_${new Date().toISOString()}.${exporter.extension}`);
+        } catch (error) {
+            console.error(`${exporter.label} export failed`, error);
+            alert("Export failed. Check console.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    /**
+     * Saves the whole project (plan, prompts, refs, context files, every version) as a
+     * .prodeck file that can be opened in another browser.
+     */
+    const handleSaveArchive = async () => {
+        setIsExporting(true);
+        try {
+            const blob = await exportDeckArchive({ ...project, updatedAt: Date.now() });
+            downloadBlob(blob, `${project.name.replace(/[\\/:*?"<>|]+/g, '_')}.${PRODECK_EXTENSION}`);
+        } catch (error) {
+            console.error("Deck file export failed", error);
+            alert("Could not save the deck file. Check console.");
+        } finally {
+            setIsExporting(false);
+        }
     };
 
+    const slideInHistory = slides.find(s => s.id === historySlide);
+
     return (
         <div className="max-w-6xl mx-auto p-8 w-full">
             <AnimatePresence mode='wait'>
@@ -322,45 +847,131 @@ export const DeckBuilder: React.FC = () => {
                                             </button>
                                         </div>
                                     ))}
+                                    {restyleSource && (
+                                        <div className="relative group w-24 h-24 flex-shrink-0 bg-violet-50 rounded-2xl border border-violet-100 flex flex-col items-center justify-center text-center p-2">
+                                            <span className="text-[10px] uppercase font-bold text-violet-600 mb-1">Restyle</span>
+                                            <span className="text-[10px] text-gray-600 leading-tight line-clamp-2 break-all">{restyleSource.fileName}</span>
+                                            <button
+                                                onClick={() => setRestyleSource(null)}
+                                                className="absolute -top-2 -right-2 bg-white rounded-full p-1 shadow-md opacity-0 group-hover:opacity-100 transition-opacity"
+                                            >
+                                                <X size={12} className="text-red-500" />
+                                            </button>
+                                        </div>
+                                    )}
                                 </div>
 
+                                {restyleSource ? (
+                                    <div className="flex flex-col gap-2">
+                                        <label className="text-sm font-medium text-gray-500">
+                                            Length: <span className="text-gray-900">{restyleSource.slides.length} slides</span>
+                                        </label>
+                                        <span className="text-[10px] text-gray-400 w-32 leading-tight">Slide for slide, as in the imported deck</span>
+                                    </div>
+                                ) : (
+                                    <div className="flex flex-col gap-2">
+                                        <label className="text-sm font-medium text-gray-500">
+                                            Length: <span className="text-gray-900">{slideCount} slides</span>
+                                        </label>
+                                        <input
+                                            type="range"
+                                            min="3"
+                                            max="20"
+                                            value={slideCount}
+                                            onChange={(e) => setSlideCount(Number(e.target.value))}
+                                            className="accent-black h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer w-32"
+                                        />
+                                    </div>
+                                )}
+
                                 <div className="flex flex-col gap-2">
                                     <label className="text-sm font-medium text-gray-500">
-                                        Length: <span className="text-gray-900">{slideCount} slides</span>
+                                        Parallel: <span className="text-gray-900">{currentLimits.concurrency}</span>
                                     </label>
                                     <input
                                         type="range"
-                                        min="3"
-                                        max="20"
-                                        value={slideCount}
-                                        onChange={(e) => setSlideCount(Number(e.target.value))}
-                                        className="accent-black h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer w-32"
+                                        min="1"
+                                        max="8"
+                                        value={currentLimits.concurrency}
+                                        onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+                                        title={`Max ${currentLimits.requestsPerMinute} requests/min`}
+                                        className="accent-black h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer w-24"
                                     />
                                 </div>
 
+                                <div className="flex flex-col gap-2">
+                                    <label className="text-sm font-medium text-gray-500">Planner</label>
+                                    <select
+                                        value={plannerId}
+                                        onChange={(e) => setPlannerId(e.target.value)}
+                                        className="bg-gray-100 rounded-lg px-2 py-1.5 text-xs font-medium text-gray-900 outline-none cursor-pointer"
+                                    >
+                                        {listPlanners().map(planner => (
+                                            <option key={planner.id} value={planner.id}>{planner.label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
                                 {/* Image Model Toggle */}
                                 <div className="flex flex-col gap-2">
                                     <label className="text-sm font-medium text-gray-500">Image Model</label>
                                     <div className="flex bg-gray-100 rounded-lg p-1">
-                                        <button
-                                            onClick={() => setImageModel('gemini')}
-                                            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${imageModel === 'gemini'
-                                                    ? 'bg-white text-gray-900 shadow-sm'
-                                                    : 'text-gray-500 hover:text-gray-700'
-                                                }`}
-                                        >
-                                            Gemini 3
-                                        </button>
-                                        <button
-                                            onClick={() => setImageModel('openai')}
-                                            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${imageModel === 'openai'
-                                                    ? 'bg-white text-gray-900 shadow-sm'
-                                                    : 'text-gray-500 hover:text-gray-700'
-                                                }`}
-                                        >
-                                            OpenAI
-                                        </button>
+                                        {imageProviders.map(provider => (
+                                            <button
+                                                key={provider.id}
+                                                onClick={() => setImageModel(provider.id)}
+                                                className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${imageModel === provider.id
+                                                        ? 'bg-white text-gray-900 shadow-sm'
+                                                        : 'text-gray-500 hover:text-gray-700'
+                                                    }`}
+                                            >
+                                                {provider.label}
+                                            </button>
+                                        ))}
                                     </div>
+                                    {!selectedProvider.capabilities.referenceImages && refImages.length > 0 && (
+                                        <span className="text-[10px] text-amber-600 max-w-40 leading-tight">
+                                            {selectedProvider.label} can't see style refs; they only guide the plan.
+                                        </span>
+                                    )}
+                                </div>
+
+                                {/* Variants per slide */}
+                                <div className="flex flex-col gap-2">
+                                    <label className="text-sm font-medium text-gray-500">Variants</label>
+                                    <select
+                                        value={variants.count}
+                                        onChange={(e) => setVariants(prev => ({ ...prev, count: Number(e.target.value) }))}
+                                        title="Images rendered per slide, to pick the best from"
+                                        className="bg-gray-100 rounded-lg px-2 py-1.5 text-xs font-medium text-gray-900 outline-none cursor-pointer"
+                                    >
+                                        {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                                            <option key={count} value={count}>{count} per slide</option>
+                                        ))}
+                                    </select>
+                                    {variants.count > 1 && imageProviders.length > 1 && (
+                                        <div className="flex flex-wrap gap-1 max-w-48" title="Providers the variants take turns on">
+                                            {imageProviders.map(provider => {
+                                                const chosen = variants.providers.length > 0 ? variants.providers : [imageModel];
+                                                const isChosen = chosen.includes(provider.id);
+                                                return (
+                                                    <button
+                                                        key={provider.id}
+                                                        onClick={() => setVariants(prev => ({
+                                                            ...prev,
+                                                            providers: isChosen ? chosen.filter(id => id !== provider.id) : [...chosen, provider.id],
+                                                        }))}
+                                                        className={`px-2 py-0.5 text-[10px] font-medium rounded-full border transition-colors ${isChosen
+                                                                ? 'bg-gray-900 text-white border-gray-900'
+                                                                : 'text-gray-500 border-gray-200 hover:text-gray-700'
+                                                            }`}
+                                                    >
+                                                        {provider.label}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
                                 </div>
                                 <div className="flex flex-col gap-2 items-end">
                                     <button
@@ -369,7 +980,7 @@ export const DeckBuilder: React.FC = () => {
                                         className="bg-black text-white px-8 py-4 rounded-full font-medium text-lg hover:scale-105 active:scale-95 transition-all disabled:opacity-50 disabled:hover:scale-100 shadow-lg flex items-center gap-2"
                                     >
                                         <Play size={20} fill="currentColor" />
-                                        Generate Deck
+                                        {restyleSource ? 'Restyle Deck' : 'Generate Deck'}
                                     </button>
 
                                     {/* Import PPTX Button */}
@@ -389,10 +1000,53 @@ export const DeckBuilder: React.FC = () => {
                                             {isImporting ? <Loader2 size={12} className="animate-spin" /> : <FileUp size={12} />}
                                             Import Existing .pptx
                                         </button>
+                                        <input
+                                            type="file"
+                                            ref={restyleInputRef}
+                                            className="hidden"
+                                            accept=".pptx"
+                                            onChange={handleRestyleUpload}
+                                        />
+                                        <button
+                                            onClick={() => restyleInputRef.current?.click()}
+                                            disabled={isImporting}
+                                            title="Keep a deck's content and order, re-render it in the style of your refs"
+                                            className="text-xs text-gray-500 hover:text-black flex items-center gap-1 transition-colors disabled:opacity-50"
+                                        >
+                                            <Paintbrush size={12} />
+                                            Restyle a .pptx
+                                        </button>
+                                        <input
+                                            type="file"
+                                            ref={archiveInputRef}
+                                            className="hidden"
+                                            accept={`.${PRODECK_EXTENSION}`}
+                                            onChange={handleOpenArchive}
+                                        />
+                                        <button
+                                            onClick={() => archiveInputRef.current?.click()}
+                                            disabled={isImporting}
+                                            title="Open a deck saved from ProDeck, with its prompts, refs and history"
+                                            className="text-xs text-gray-500 hover:text-black flex items-center gap-1 transition-colors disabled:opacity-50"
+                                        >
+                                            <FolderOpen size={12} />
+                                            Open .prodeck
+                                        </button>
                                     </div>
                                 </div>
                             </div>
                         </div>
+
+                        {refImages.length > 0 && (
+                            <BrandKitEditor
+                                kit={brandKit}
+                                isExtracting={isExtractingBrand}
+                                onExtract={handleExtractBrand}
+                                onChange={setBrandKit}
+                            />
+                        )}
+
+                        <ProjectList currentProjectId={projectId} onOpen={handleOpenProject} />
                     </motion.div>
                 )}
 
@@ -408,6 +1062,17 @@ export const DeckBuilder: React.FC = () => {
                     </motion.div>
                 )}
 
+                {currentStep === 'outline' && (
+                    <OutlineEditor
+                        key="outline"
+                        slides={slides}
+                        onChange={setSlides}
+                        onReplan={handleReplan}
+                        onRender={renderSlides}
+                        onBack={() => setCurrentStep('input')}
+                    />
+                )}
+
                 {(currentStep === 'generating' || currentStep === 'preview') && (
                     <motion.div
                         initial={{ opacity: 0 }}
@@ -417,109 +1082,166 @@ export const DeckBuilder: React.FC = () => {
                         <div className="flex items-center justify-between">
                             <h2 className="text-2xl font-semibold text-gray-900">Your Deck</h2>
                             <div className="flex gap-2">
-                                <button
-                                    onClick={() => {
-                                        setSlides([]);
-                                        setCurrentStep('input');
-                                    }}
-                                    className="px-4 py-2 text-gray-500 font-medium hover:text-black transition-colors"
-                                >
-                                    Start Over
-                                </button>
+                                {currentStep === 'generating' && (
+                                    <button
+                                        onClick={() => queueRef.current?.cancelAll()}
+                                        className="px-4 py-2 text-red-500 font-medium hover:text-red-700 transition-colors flex items-center gap-2"
+                                    >
+                                        <Ban size={16} />
+                                        Cancel Run
+                                    </button>
+                                )}
                                 {currentStep === 'preview' && (
                                     <button
-                                        onClick={handleExport}
-                                        className="bg-blue-600 text-white px-6 py-2 rounded-full font-medium hover:bg-blue-700 transition-colors flex items-center gap-2 shadow-sm"
+                                        onClick={() => runConsistencyCheck(currentImages(slides))}
+                                        disabled={isCheckingConsistency}
+                                        title="Compare every slide against the rest of the deck and the brand kit"
+                                        className="px-4 py-2 text-gray-500 font-medium hover:text-black transition-colors flex items-center gap-2 disabled:opacity-50"
                                     >
-                                        <Download size={18} />
-                                        Export PPTX
+                                        {isCheckingConsistency ? <Loader2 size={16} className="animate-spin" /> : <ScanEye size={16} />}
+                                        Check Consistency
                                     </button>
                                 )}
-                            </div>
-                        </div>
-
-                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                            {slides.map((slide) => (
-                                <motion.div
-                                    key={slide.slideNumber}
-                                    layoutId={`slide-${slide.slideNumber}`}
-                                    className="aspect-video bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden relative group"
+                                <button
+                                    onClick={handleStartOver}
+                                    className="px-4 py-2 text-gray-500 font-medium hover:text-black transition-colors"
                                 >
-                                    {slide.imageData ? (
-                                        <>
-                                            <img src={slide.imageData} alt={slide.title} className="w-full h-full object-cover" />
-                                            {slide.status === 'generating' && (
-                                                <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center backdrop-blur-sm z-10 transition-all duration-300">
-                                                    <Loader2 size={32} className="animate-spin text-white mb-2" />
-                                                    <span className="text-white text-sm font-medium">Regenerating...</span>
-                                                </div>
-                                            )}
-                                        </>
-                                    ) : (
-                                        <div className="w-full h-full flex flex-col items-center justify-center bg-gray-50 text-gray-400 p-4 text-center">
-                                            {slide.status === 'generating' ? (
-                                                <Loader2 size={32} className="animate-spin text-blue-500" />
-                                            ) : slide.status === 'error' ? (
-                                                <div className="text-red-500 flex flex-col items-center">
-                                                    <X size={32} />
-                                                    <span className="mt-2 text-sm font-medium">Generation Failed</span>
-                                                </div>
-                                            ) : (
-                                                <ImageIcon size={32} />
-                                            )}
-                                            <span className="mt-2 text-sm font-medium">
-                                                {slide.status === 'generating' ? 'Rendering...' : slide.status === 'error' ? '' : 'Waiting...'}
-                                            </span>
-                                        </div>
-                                    )}
-                                    <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/50 to-transparent p-4 opacity-0 group-hover:opacity-100 transition-opacity flex justify-between items-end">
-                                        <p className="text-white text-sm font-medium">{slide.title}</p>
-
-                                        {slide.status === 'done' && (
+                                    Start Over
+                                </button>
+                                {currentStep === 'preview' && (
+                                    <>
+                                        <button
+                                            onClick={() => setIsPresenting(true)}
+                                            disabled={!slides.some(s => s.imageData)}
+                                            title="Present fullscreen, with a speaker view in a second window"
+                                            className="px-4 py-2 text-gray-500 font-medium hover:text-black transition-colors flex items-center gap-2 disabled:opacity-50"
+                                        >
+                                            <Presentation size={16} />
+                                            Present
+                                        </button>
+                                        <button
+                                            onClick={handleSaveArchive}
+                                            disabled={isExporting}
+                                            title="Save the deck with its prompts, refs and history, to share or keep editing"
+                                            className="px-4 py-2 text-gray-500 font-medium hover:text-black transition-colors flex items-center gap-2 disabled:opacity-50"
+                                        >
+                                            <Save size={16} />
+                                            Save .prodeck
+                                        </button>
+                                        <button
+                                            onClick={() => handleExport('editable')}
+                                            disabled={isExporting}
+                                            title="Rebuilds slide text as editable PowerPoint text boxes"
+                                            className="px-4 py-2 text-blue-600 font-medium hover:text-blue-800 transition-colors flex items-center gap-2 disabled:opacity-50"
+                                        >
+                                            <Type size={18} />
+                                            Editable PPTX
+                                        </button>
+                                        <div className="relative">
                                             <button
-                                                onClick={() => handleEditStart(slide.slideNumber)}
-                                                className="bg-white/20 hover:bg-white/40 backdrop-blur-md text-white p-2 rounded-lg transition-colors"
+                                                onClick={() => setShowExportMenu(open => !open)}
+                                                disabled={isExporting}
+                                                className="px-4 py-2 text-gray-500 font-medium hover:text-black transition-colors flex items-center gap-1 disabled:opacity-50"
                                             >
-                                                <Edit2 size={16} />
+                                                More formats
+                                                <ChevronDown size={16} />
                                             </button>
-                                        )}
-                                    </div>
-
-                                    {/* Edit Overlay */}
-                                    {editingSlide === slide.slideNumber && (
-                                        <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-10">
-                                            <div className="bg-white rounded-xl p-4 w-full shadow-2xl space-y-3">
-                                                <h3 className="text-sm font-semibold text-gray-900">Edit Slide</h3>
-                                                <textarea
-                                                    value={editInstruction}
-                                                    onChange={(e) => setEditInstruction(e.target.value)}
-                                                    placeholder="e.g. 'Make the background darker' or 'Change text to...'"
-                                                    className="w-full text-sm border border-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-blue-500 outline-none resize-none h-20"
-                                                    autoFocus
-                                                />
-                                                <div className="flex justify-end gap-2">
-                                                    <button
-                                                        onClick={handleEditCancel}
-                                                        className="text-xs px-3 py-1.5 text-gray-500 font-medium hover:text-gray-700"
-                                                    >
-                                                        Cancel
-                                                    </button>
-                                                    <button
-                                                        onClick={() => handleEditSubmit(slide.slideNumber)}
-                                                        className="text-xs px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700"
-                                                    >
-                                                        Update
-                                                    </button>
+                                            {showExportMenu && (
+                                                <div className="absolute right-0 top-full mt-1 w-72 bg-white rounded-xl shadow-lg ring-1 ring-black/5 py-1 z-20">
+                                                    {listExporters().map(exporter => (
+                                                        <button
+                                                            key={exporter.id}
+                                                            onClick={() => handleExportAs(exporter)}
+                                                            className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                                                        >
+                                                            <span className="block text-sm font-medium text-gray-900">{exporter.label}</span>
+                                                            <span className="block text-xs text-gray-500">{exporter.description}</span>
+                                                        </button>
+                                                    ))}
                                                 </div>
-                                            </div>
+                                            )}
                                         </div>
-                                    )}
-                                </motion.div>
-                            ))}
+                                        <button
+                                            onClick={() => handleExport('image')}
+                                            disabled={isExporting}
+                                            className="bg-blue-600 text-white px-6 py-2 rounded-full font-medium hover:bg-blue-700 transition-colors flex items-center gap-2 shadow-sm disabled:opacity-50"
+                                        >
+                                            {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+                                            Export PPTX
+                                        </button>
+                                    </>
+                                )}
+                            </div>
                         </div>
+
+                        {currentStep === 'generating' && progress && (
+                            <div className="space-y-2">
+                                <div className="flex justify-between text-sm text-gray-500">
+                                    <span>
+                                        {progress.completed + progress.failed + progress.cancelled} / {progress.total} slides
+                                        {progress.running > 0 && ` · ${progress.running} rendering`}
+                                        {progress.failed > 0 && ` · ${progress.failed} failed`}
+                                    </span>
+                                    {progress.etaMs !== null && progress.etaMs > 0 && <span>{formatEta(progress.etaMs)}</span>}
+                                </div>
+                                <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-blue-600 transition-all duration-500"
+                                        style={{ width: `${progress.total ? ((progress.completed + progress.failed + progress.cancelled) / progress.total) * 100 : 0}%` }}
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {currentStep === 'preview' && (
+                            <DeckEditPanel onPlan={handlePlanDeckEdit} onApply={handleApplyDeckEdit} />
+                        )}
+
+                        <SlideSorter
+                            slides={slides}
+                            onMove={handleMoveSlide}
+                            onDuplicate={handleDuplicateSlide}
+                            onDelete={handleDeleteSlide}
+                            onInsert={handleInsertSlide}
+                            renderCard={(slide) => (
+                                <SlideCard
+                                    slide={slide}
+                                    onEdit={(instruction, mask) => handleEditSubmit(slide, instruction, mask)}
+                                    onUndo={() => handleUndo(slide)}
+                                    onShowHistory={() => setHistorySlide(slide.id)}
+                                    onRegenerate={() => renderSlide(slide)}
+                                    onRenderVariants={(count) => renderSlide(slide, undefined, { ...variants, count })}
+                                    onShowVariant={(versionId) => updateSlide(slide.id, s => withActiveVersion(s, versionId))}
+                                    onPickVariant={() => handlePickVariant(slide)}
+                                    onMatchDeck={() => handleMatchDeck(slide)}
+                                    onFixText={(instruction) => handleEditSubmit(slide, instruction)}
+                                    brandKit={brandKit}
+                                    onNotesChange={(speakerNotes) => updateSlide(slide.id, s => ({ ...s, speakerNotes }))}
+                                    onCancel={slide.status === 'generating' || slide.status === 'pending'
+                                        ? () => queueRef.current?.cancel(slide.id)
+                                        : undefined}
+                                />
+                            )}
+                        />
                     </motion.div>
                 )}
             </AnimatePresence>
+
+            {isPresenting && (
+                <PresenterMode
+                    slides={slides.filter(s => s.imageData)}
+                    brandKit={brandKit}
+                    onExit={() => setIsPresenting(false)}
+                />
+            )}
+
+            {slideInHistory && (
+                <VersionHistory
+                    slide={slideInHistory}
+                    onRestore={(versionId) => handleRestoreVersion(slideInHistory.id, versionId)}
+                    onClose={() => setHistorySlide(null)}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Loader2, MessageSquareText, Wand2 } from 'lucide-react';
+import type { SlideRevision } from '../services/planners';
+import type { Slide } from '../types/deck';
+import { composeSlidePrompt } from '../utils/slideContent';
+import { revisionEffect } from '../utils/slides';
+import { diffWords } from '../utils/textDiff';
+
+/**
+ * A planned revision of one slide, with the slide as it was when it was planned.
+ */
+export interface DeckEditChange {
+    slide: Slide;
+    revision: SlideRevision;
+}
+
+interface DeckEditPanelProps {
+    disabled?: boolean;
+    /** Interprets the instruction into per-slide changes, for review. */
+    onPlan: (instruction: string) => Promise<DeckEditChange[]>;
+    onApply: (changes: DeckEditChange[]) => void;
+}
+
+const EFFECT_LABELS = {
+    edit: 'Edit image',
+    render: 'Re-render',
+    none: 'Text only',
+};
+
+const Diff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+    <p className="text-xs text-gray-600 whitespace-pre-wrap leading-relaxed max-h-40 overflow-y-auto bg-gray-50 rounded-lg p-2">
+        {diffWords(before, after).map((part, i) => (
+            <span
+                key={i}
+                className={part.change === 'added'
+                    ? 'bg-green-100 text-green-800'
+                    : part.change === 'removed' ? 'bg-red-100 text-red-700 line-through' : undefined}
+            >
+                {part.text}
+            </span>
+        ))}
+    </p>
+);
+
+/**
+ * Deck-wide instruction box. The planner turns the instruction into changes to the
+ * affected slides, which are shown as a diff of their image prompts; the selected
+ * ones are then applied in one batch.
+ */
+export const DeckEditPanel: React.FC<DeckEditPanelProps> = ({ disabled, onPlan, onApply }) => {
+    const [instruction, setInstruction] = useState('');
+    const [isPlanning, setIsPlanning] = useState(false);
+    const [changes, setChanges] = useState<DeckEditChange[] | null>(null);
+    const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+    const handlePlan = async () => {
+        if (!instruction.trim()) return;
+        setIsPlanning(true);
+        try {
+            setChanges(await onPlan(instruction.trim()));
+            setExcluded(new Set());
+        } catch (error) {
+            console.error("Deck edit planning failed", error);
+            alert("Could not plan these changes. Check console.");
+        } finally {
+            setIsPlanning(false);
+        }
+    };
+
+    const toggle = (slideId: string) => {
+        setExcluded(prev => {
+            const next = new Set(prev);
+            if (next.has(slideId)) next.delete(slideId);
+            else next.add(slideId);
+            return next;
+        });
+    };
+
+    const selected = changes?.filter(change => !excluded.has(change.slide.id)) ?? [];
+
+    const handleApply = () => {
+        onApply(selected);
+        setChanges(null);
+        setInstruction('');
+    };
+
+    return (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 space-y-4">
+            <div className="flex gap-2 items-center">
+                <MessageSquareText size={18} className="text-gray-400 flex-shrink-0" />
+                <input
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handlePlan()}
+                    disabled={disabled || isPlanning}
+                    placeholder="Change the whole deck, e.g. 'shorten all bullets to 6 words' or 'swap to the dark variant of the brand'"
+                    className="flex-1 text-sm bg-transparent outline-none placeholder:text-gray-400"
+                />
+                <button
+                    onClick={handlePlan}
+                    disabled={disabled || isPlanning || !instruction.trim()}
+                    className="text-xs px-3 py-1.5 bg-black text-white rounded-lg font-medium hover:bg-gray-800 flex items-center gap-1 disabled:opacity-50"
+                >
+                    {isPlanning ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+                    Preview changes
+                </button>
+            </div>
+
+            {changes && changes.length === 0 && (
+                <p className="text-sm text-gray-500">No slides need to change for this instruction.</p>
+            )}
+
+            {changes && changes.length > 0 && (
+                <>
+                    <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+                        {changes.map(({ slide, revision }) => {
+                            const effect = revisionEffect(slide, revision);
+                            const before = composeSlidePrompt(slide);
+                            const after = composeSlidePrompt(revision.slide);
+                            return (
+                                <label key={slide.id} className="flex gap-3 items-start cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={!excluded.has(slide.id)}
+                                        onChange={() => toggle(slide.id)}
+                                        className="mt-1 accent-black"
+                                    />
+                                    <div className="flex-1 min-w-0 space-y-1">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-sm font-medium text-gray-900 truncate">
+                                                {slide.slideNumber}. {revision.slide.title}
+                                            </span>
+                                            <span className="text-[10px] uppercase tracking-wide font-semibold text-blue-600 bg-blue-50 rounded px-1.5 py-0.5 flex-shrink-0">
+                                                {EFFECT_LABELS[effect]}
+                                            </span>
+                                        </div>
+                                        {effect === 'edit' && revision.editInstruction && (
+                                            <p className="text-xs text-gray-600">"{revision.editInstruction}"</p>
+                                        )}
+                                        {before !== after
+                                            ? <Diff before={before} after={after} />
+                                            : <Diff before={slide.speakerNotes ?? ''} after={revision.slide.speakerNotes ?? ''} />}
+                                    </div>
+                                </label>
+                            );
+                        })}
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => setChanges(null)}
+                            className="text-xs px-3 py-1.5 text-gray-500 font-medium hover:text-gray-700"
+                        >
+                            Discard
+                        </button>
+                        <button
+                            onClick={handleApply}
+                            disabled={disabled || selected.length === 0}
+                            className="text-xs px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            Apply to {selected.length} slide{selected.length === 1 ? '' : 's'}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
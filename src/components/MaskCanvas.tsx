@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import type { MaskPoint, MaskShape } from '../utils/mask';
+
+export type MaskTool = 'rect' | 'brush';
+
+interface MaskCanvasProps {
+    shapes: MaskShape[];
+    tool: MaskTool;
+    /** Brush diameter, as a fraction of the slide width. */
+    brushSize: number;
+    onChange: (shapes: MaskShape[]) => void;
+}
+
+// Drawn on a 16:9 canvas of this size, which scales with the slide
+const WIDTH = 1600;
+const HEIGHT = 900;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const rectBetween = (a: MaskPoint, b: MaskPoint): MaskShape => ({
+    kind: 'rect',
+    region: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), w: Math.abs(a.x - b.x), h: Math.abs(a.y - b.y) },
+});
+
+const ShapePath: React.FC<{ shape: MaskShape }> = ({ shape }) => shape.kind === 'rect' ? (
+    <rect
+        x={shape.region.x * WIDTH}
+        y={shape.region.y * HEIGHT}
+        width={shape.region.w * WIDTH}
+        height={shape.region.h * HEIGHT}
+    />
+) : (
+    <polyline
+        points={shape.points.map(p => `${p.x * WIDTH},${p.y * HEIGHT}`).join(' ')}
+        fill="none"
+        strokeWidth={shape.size * WIDTH}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+    />
+);
+
+/**
+ * Transparent layer over a slide for marking the area an edit may change, with
+ * rectangles or a brush. Shapes are kept in fractions of the slide size.
+ */
+export const MaskCanvas: React.FC<MaskCanvasProps> = ({ shapes, tool, brushSize, onChange }) => {
+    const [start, setStart] = useState<MaskPoint | null>(null);
+    const [draft, setDraft] = useState<MaskShape | null>(null);
+
+    const pointFor = (e: React.PointerEvent<SVGSVGElement>): MaskPoint => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = pointFor(e);
+        setStart(point);
+        setDraft(tool === 'rect' ? rectBetween(point, point) : { kind: 'stroke', points: [point], size: brushSize });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!start || !draft) return;
+        const point = pointFor(e);
+        setDraft(draft.kind === 'rect' ? rectBetween(start, point) : { ...draft, points: [...draft.points, point] });
+    };
+
+    const handlePointerUp = () => {
+        // A click without a drag doesn't make a usable rectangle
+        if (draft && (draft.kind === 'stroke' || (draft.region.w > 0.01 && draft.region.h > 0.01))) {
+            onChange([...shapes, draft]);
+        }
+        setStart(null);
+        setDraft(null);
+    };
+
+    return (
+        <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+        >
+            <g fill="rgba(59, 130, 246, 0.35)" stroke="rgba(59, 130, 246, 0.35)">
+                {shapes.map((shape, i) => <ShapePath key={i} shape={shape} />)}
+                {draft && <ShapePath shape={draft} />}
+            </g>
+        </svg>
+    );
+};
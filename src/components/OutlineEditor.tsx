@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowDown, ArrowUp, Loader2, Play, Plus, Scissors, Sparkles, Trash2, X } from 'lucide-react';
+import type { Slide } from '../types/deck';
+import { emptyContent } from '../utils/slideContent';
+import { createSlide, renumberSlides } from '../utils/slides';
+import { SlideContentEditor } from './SlideContentEditor';
+
+interface OutlineEditorProps {
+    slides: Slide[];
+    onChange: (slides: Slide[]) => void;
+    /** Replaces the slide with `count` re-planned slides (2+ splits it). */
+    onReplan: (slideId: string, count: number, guidance: string) => Promise<void>;
+    onRender: () => void;
+    onBack: () => void;
+}
+
+const iconButton = "p-1.5 text-gray-400 hover:text-black disabled:opacity-30 disabled:hover:text-gray-400 transition-colors";
+
+export const OutlineEditor: React.FC<OutlineEditorProps> = ({ slides, onChange, onReplan, onRender, onBack }) => {
+    const [busyIds, setBusyIds] = useState<string[]>([]);
+    const [guidanceFor, setGuidanceFor] = useState<string | null>(null);
+    const [guidance, setGuidance] = useState('');
+
+    const updateSlide = (id: string, changes: Partial<Pick<Slide, 'title' | 'visualPrompt' | 'content' | 'media'>>) => {
+        onChange(slides.map(s => s.id === id ? { ...s, ...changes } : s));
+    };
+
+    const moveSlide = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= slides.length) return;
+        const next = [...slides];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(renumberSlides(next));
+    };
+
+    const insertSlide = (index: number) => {
+        const next = [...slides];
+        next.splice(index + 1, 0, createSlide({ slideNumber: index + 2, title: 'New slide', visualPrompt: '', content: emptyContent('') }));
+        onChange(renumberSlides(next));
+    };
+
+    const deleteSlide = (id: string) => {
+        onChange(renumberSlides(slides.filter(s => s.id !== id)));
+    };
+
+    const replan = async (id: string, count: number, text: string = '') => {
+        setBusyIds(prev => [...prev, id]);
+        setGuidanceFor(null);
+        try {
+            await onReplan(id, count, text);
+        } catch (error) {
+            console.error("Re-plan failed", error);
+            alert("Could not re-plan this slide. Check console.");
+        } finally {
+            setBusyIds(prev => prev.filter(busyId => busyId !== id));
+        }
+    };
+
+    const hasEmptyPrompts = slides.some(s => !s.visualPrompt.trim());
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="space-y-8"
+        >
+            <div className="flex items-center justify-between">
+                <div>
+                    <h2 className="text-2xl font-semibold text-gray-900">Review the outline</h2>
+                    <p className="text-gray-500 mt-1">Nothing has been rendered yet. Fix the story now, before paying for images.</p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={onBack}
+                        className="px-4 py-2 text-gray-500 font-medium hover:text-black transition-colors"
+                    >
+                        Back
+                    </button>
+                    <button
+                        onClick={onRender}
+                        disabled={slides.length === 0 || hasEmptyPrompts || busyIds.length > 0}
+                        title={hasEmptyPrompts ? 'Every slide needs art direction' : undefined}
+                        className="bg-black text-white px-6 py-2 rounded-full font-medium hover:scale-105 active:scale-95 transition-all disabled:opacity-50 disabled:hover:scale-100 shadow-sm flex items-center gap-2"
+                    >
+                        <Play size={16} fill="currentColor" />
+                        Render {slides.length} slides
+                    </button>
+                </div>
+            </div>
+
+            <div className="space-y-4">
+                {slides.map((slide, index) => {
+                    const isBusy = busyIds.includes(slide.id);
+                    return (
+                        <div
+                            key={slide.id}
+                            className="bg-white/80 rounded-2xl p-5 shadow-sm ring-1 ring-black/5 flex gap-4 relative"
+                        >
+                            <span className="text-sm font-semibold text-gray-300 w-6 pt-2">{slide.slideNumber}</span>
+                            <div className="flex-1 space-y-2">
+                                <input
+                                    value={slide.title}
+                                    onChange={(e) => updateSlide(slide.id, { title: e.target.value })}
+                                    disabled={isBusy}
+                                    className="w-full text-lg font-medium text-gray-900 bg-transparent outline-none border-b border-transparent focus:border-gray-200"
+                                />
+                                <SlideContentEditor
+                                    content={slide.content ?? emptyContent(slide.title)}
+                                    onChange={(content) => updateSlide(slide.id, { content })}
+                                    disabled={isBusy}
+                                />
+                                {slide.media && slide.media.length > 0 && (
+                                    <div className="flex gap-2 flex-wrap">
+                                        {slide.media.map((item, i) => (
+                                            <div key={i} className="relative group" title={item.description ?? item.name}>
+                                                <img src={item.imageData} alt={item.description ?? item.name} className="h-14 rounded-lg ring-1 ring-black/5 bg-gray-50 object-contain" />
+                                                <button
+                                                    onClick={() => updateSlide(slide.id, { media: slide.media!.filter((_, j) => j !== i) })}
+                                                    disabled={isBusy}
+                                                    title="Remove picture"
+                                                    className="absolute -top-1.5 -right-1.5 bg-white rounded-full shadow p-0.5 text-gray-500 hover:text-black opacity-0 group-hover:opacity-100 transition-opacity"
+                                                >
+                                                    <X size={10} />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                <textarea
+                                    value={slide.visualPrompt}
+                                    onChange={(e) => updateSlide(slide.id, { visualPrompt: e.target.value })}
+                                    disabled={isBusy}
+                                    placeholder="Art direction: composition, background, imagery, styling..."
+                                    className="w-full h-24 text-sm text-gray-600 bg-gray-50 rounded-lg p-3 outline-none resize-y focus:ring-2 focus:ring-blue-500"
+                                />
+                                {guidanceFor === slide.id && (
+                                    <div className="flex gap-2">
+                                        <input
+                                            value={guidance}
+                                            onChange={(e) => setGuidance(e.target.value)}
+                                            onKeyDown={(e) => e.key === 'Enter' && replan(slide.id, 1, guidance)}
+                                            placeholder="Optional guidance, e.g. 'focus on pricing, fewer bullets'"
+                                            className="flex-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-blue-500"
+                                            autoFocus
+                                        />
+                                        <button
+                                            onClick={() => replan(slide.id, 1, guidance)}
+                                            className="text-xs px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700"
+                                        >
+                                            Re-plan
+                                        </button>
+                                        <button
+                                            onClick={() => setGuidanceFor(null)}
+                                            className="text-xs px-3 py-1.5 text-gray-500 font-medium hover:text-gray-700"
+                                        >
+                                            Cancel
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                            <div className="flex flex-col">
+                                <button onClick={() => moveSlide(index, -1)} disabled={index === 0} title="Move up" className={iconButton}>
+                                    <ArrowUp size={14} />
+                                </button>
+                                <button onClick={() => moveSlide(index, 1)} disabled={index === slides.length - 1} title="Move down" className={iconButton}>
+                                    <ArrowDown size={14} />
+                                </button>
+                                <button onClick={() => insertSlide(index)} title="Insert slide below" className={iconButton}>
+                                    <Plus size={14} />
+                                </button>
+                                <button onClick={() => replan(slide.id, 2)} disabled={isBusy} title="Split into two slides" className={iconButton}>
+                                    <Scissors size={14} />
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        setGuidanceFor(slide.id);
+                                        setGuidance('');
+                                    }}
+                                    disabled={isBusy}
+                                    title="Re-plan this slide"
+                                    className={iconButton}
+                                >
+                                    <Sparkles size={14} />
+                                </button>
+                                <button onClick={() => deleteSlide(slide.id)} disabled={isBusy || slides.length === 1} title="Delete slide" className={`${iconButton} hover:text-red-500`}>
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+
+                            {isBusy && (
+                                <div className="absolute inset-0 bg-white/70 backdrop-blur-sm rounded-2xl flex items-center justify-center">
+                                    <Loader2 size={24} className="animate-spin text-gray-400" />
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </motion.div>
+    );
+};
@@ -0,0 +1,384 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AnimatePresence, motion, type Variants } from 'framer-motion';
+import { ChevronLeft, ChevronRight, MonitorUp, RotateCcw, X } from 'lucide-react';
+import { loadSetting, saveSetting } from '../services/settings';
+import type { BrandKit, Slide } from '../types/deck';
+import { dataVisualSvg, svgDataUrl } from '../utils/dataVisual';
+
+export type SlideTransition = 'none' | 'fade' | 'slide' | 'zoom';
+
+interface PresenterModeProps {
+    /** Slides to show, in order; only rendered slides should be passed. */
+    slides: Slide[];
+    startIndex?: number;
+    brandKit?: BrandKit;
+    onExit: () => void;
+}
+
+interface PresenterSettings {
+    transition: SlideTransition;
+    targetMinutes: number;
+}
+
+const DEFAULT_SETTINGS: PresenterSettings = { transition: 'fade', targetMinutes: 20 };
+
+// Variants take the direction of travel (1 forward, -1 back) as their custom value
+const TRANSITIONS: Record<SlideTransition, { label: string; variants: Variants; duration: number }> = {
+    none: { label: 'None', variants: {}, duration: 0 },
+    fade: {
+        label: 'Fade',
+        variants: { enter: { opacity: 0 }, center: { opacity: 1 }, exit: { opacity: 0 } },
+        duration: 0.4,
+    },
+    slide: {
+        label: 'Slide',
+        variants: {
+            enter: (direction: number) => ({ x: `${direction * 100}%` }),
+            center: { x: 0 },
+            exit: (direction: number) => ({ x: `${direction * -100}%` }),
+        },
+        duration: 0.45,
+    },
+    zoom: {
+        label: 'Zoom',
+        variants: { enter: { opacity: 0, scale: 0.94 }, center: { opacity: 1, scale: 1 }, exit: { opacity: 0, scale: 1.04 } },
+        duration: 0.35,
+    },
+};
+
+// Presentation clickers send page keys; keyboards use arrows and space
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown', 'PageDown', ' ', 'Enter'];
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace'];
+// Most clickers have a "blank screen" button that sends b or .
+const BLANK_KEYS = ['b', 'B', '.'];
+
+const CONTROLS_HIDE_MS = 2500;
+
+// Checked by tag name: elements in the speaker window aren't instances of this window's classes
+const isFormField = (target: EventTarget | null) =>
+    ['INPUT', 'SELECT', 'TEXTAREA'].includes((target as HTMLElement | null)?.tagName ?? '');
+
+const formatDuration = (ms: number) => {
+    const seconds = Math.floor(Math.abs(ms) / 1000);
+    return `${ms < 0 ? '-' : ''}${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * A slide as it looks in the preview: the image with its chart or table on top.
+ */
+const SlideFrame: React.FC<{ slide: Slide; brandKit?: BrandKit }> = ({ slide, brandKit }) => {
+    const dataVisual = useMemo(() => {
+        const svg = slide.content && dataVisualSvg(slide.content, brandKit);
+        return svg ? svgDataUrl(svg) : undefined;
+    }, [slide.content, brandKit]);
+
+    return (
+        <div className="relative w-full aspect-video">
+            <img src={slide.imageData} alt={slide.title} className="w-full h-full object-contain" />
+            {dataVisual && <img src={dataVisual} alt="" className="absolute inset-0 w-full h-full pointer-events-none" />}
+        </div>
+    );
+};
+
+interface SpeakerViewProps {
+    slides: Slide[];
+    index: number;
+    brandKit?: BrandKit;
+    elapsedMs: number;
+    targetMinutes: number;
+    onTargetChange: (minutes: number) => void;
+    onResetTimer: () => void;
+    onNavigate: (index: number) => void;
+}
+
+/**
+ * What only the presenter sees: the current and next slide, the notes, and the
+ * time spent against the time planned.
+ */
+const SpeakerView: React.FC<SpeakerViewProps> = ({ slides, index, brandKit, elapsedMs, targetMinutes, onTargetChange, onResetTimer, onNavigate }) => {
+    const slide = slides[index];
+    const next = slides[index + 1];
+    const targetMs = targetMinutes * 60000;
+    const share = targetMs > 0 ? elapsedMs / targetMs : 0;
+    const barColor = share > 1 ? 'bg-red-500' : share > 0.9 ? 'bg-amber-400' : 'bg-emerald-500';
+
+    return (
+        <div className="h-screen bg-gray-950 text-gray-100 p-6 flex flex-col gap-5 font-sans">
+            <div className="flex items-center gap-6">
+                <span className={`text-4xl font-semibold tabular-nums ${share > 1 ? 'text-red-400' : ''}`}>{formatDuration(elapsedMs)}</span>
+                <div className="flex-1 space-y-1">
+                    <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                        <div className={`h-full ${barColor} transition-all`} style={{ width: `${Math.min(1, share) * 100}%` }} />
+                    </div>
+                    <div className="text-xs text-gray-400 tabular-nums">
+                        {share > 1 ? `${formatDuration(elapsedMs - targetMs)} over` : `${formatDuration(targetMs - elapsedMs)} left`}
+                    </div>
+                </div>
+                <label className="text-xs text-gray-400 flex items-center gap-2">
+                    Target
+                    <input
+                        type="number"
+                        min={1}
+                        max={240}
+                        value={targetMinutes}
+                        onChange={(e) => onTargetChange(Math.max(1, Number(e.target.value) || 1))}
+                        className="w-14 bg-gray-800 rounded px-2 py-1 text-gray-100 outline-none"
+                    />
+                    min
+                </label>
+                <button onClick={onResetTimer} title="Restart the timer" className="p-2 text-gray-400 hover:text-white">
+                    <RotateCcw size={16} />
+                </button>
+            </div>
+
+            <div className="flex-1 min-h-0 grid grid-cols-[3fr_2fr] gap-6">
+                <div className="flex flex-col gap-3 min-h-0">
+                    <div className="text-xs uppercase tracking-wide text-gray-500">Current · {index + 1} of {slides.length}</div>
+                    <div className="rounded-lg overflow-hidden bg-black">
+                        <SlideFrame slide={slide} brandKit={brandKit} />
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => onNavigate(index - 1)}
+                            disabled={index === 0}
+                            className="px-3 py-1.5 bg-gray-800 rounded-lg text-sm flex items-center gap-1 disabled:opacity-30"
+                        >
+                            <ChevronLeft size={14} /> Previous
+                        </button>
+                        <button
+                            onClick={() => onNavigate(index + 1)}
+                            disabled={!next}
+                            className="px-3 py-1.5 bg-gray-800 rounded-lg text-sm flex items-center gap-1 disabled:opacity-30"
+                        >
+                            Next <ChevronRight size={14} />
+                        </button>
+                    </div>
+                </div>
+                <div className="flex flex-col gap-3 min-h-0">
+                    <div className="text-xs uppercase tracking-wide text-gray-500">Next</div>
+                    <div className="rounded-lg overflow-hidden bg-black opacity-80">
+                        {next ? <SlideFrame slide={next} brandKit={brandKit} /> : (
+                            <div className="aspect-video flex items-center justify-center text-sm text-gray-500">End of deck</div>
+                        )}
+                    </div>
+                    <div className="text-xs uppercase tracking-wide text-gray-500 mt-2">Notes</div>
+                    <p className="flex-1 overflow-y-auto text-lg leading-relaxed whitespace-pre-wrap">
+                        {slide.speakerNotes?.trim() || <span className="text-gray-500">No notes for this slide.</span>}
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Opens (or reuses) the speaker window and gives back a node to portal into. The
+ * app's stylesheets are copied over so the portal renders with the same styles.
+ */
+const openSpeakerWindow = (): { window: Window; root: HTMLElement } | null => {
+    const win = window.open('', 'prodeck-speaker', 'width=1200,height=760');
+    if (!win) return null;
+    win.document.title = 'Speaker view';
+    win.document.head.innerHTML = '';
+    document.querySelectorAll('style, link[rel="stylesheet"]').forEach(node => {
+        win.document.head.appendChild(node.cloneNode(true));
+    });
+    win.document.body.innerHTML = '';
+    win.document.body.style.margin = '0';
+    const root = win.document.createElement('div');
+    win.document.body.appendChild(root);
+    return { window: win, root };
+};
+
+/**
+ * Fullscreen slideshow over the deck. Keyboards and clickers move through it, b
+ * blanks the screen, Escape leaves; S opens the speaker view in a second window
+ * (drag it to the laptop screen) which follows along and has its own controls.
+ */
+export const PresenterMode: React.FC<PresenterModeProps> = ({ slides, startIndex = 0, brandKit, onExit }) => {
+    const [index, setIndex] = useState(() => Math.min(startIndex, slides.length - 1));
+    const [direction, setDirection] = useState(1);
+    const [isBlank, setIsBlank] = useState(false);
+    const [settings, setSettings] = useState(() => loadSetting('presenter', DEFAULT_SETTINGS));
+    const [speaker, setSpeaker] = useState<{ window: Window; root: HTMLElement } | null>(null);
+    const [startedAt, setStartedAt] = useState(() => Date.now());
+    const [now, setNow] = useState(() => Date.now());
+    const [showControls, setShowControls] = useState(true);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const onExitRef = useRef(onExit);
+    const hideTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+    const updateSettings = (changes: Partial<PresenterSettings>) => {
+        const next = { ...settings, ...changes };
+        setSettings(next);
+        saveSetting('presenter', next);
+    };
+
+    const goTo = (target: number) => {
+        const clamped = Math.min(slides.length - 1, Math.max(0, target));
+        if (clamped === index) return;
+        setDirection(clamped > index ? 1 : -1);
+        setIndex(clamped);
+        setIsBlank(false);
+    };
+
+    const openSpeakerView = () => {
+        if (speaker && !speaker.window.closed) {
+            speaker.window.focus();
+            return;
+        }
+        const opened = openSpeakerWindow();
+        if (!opened) {
+            alert("Allow pop-ups for this site to open the speaker view.");
+            return;
+        }
+        setSpeaker(opened);
+    };
+
+    const handleKey = (e: KeyboardEvent) => {
+        if (isFormField(e.target)) return;
+        if (NEXT_KEYS.includes(e.key)) goTo(index + 1);
+        else if (PREVIOUS_KEYS.includes(e.key)) goTo(index - 1);
+        else if (e.key === 'Home') goTo(0);
+        else if (e.key === 'End') goTo(slides.length - 1);
+        else if (BLANK_KEYS.includes(e.key)) setIsBlank(blank => !blank);
+        else if (e.key === 's' || e.key === 'S') openSpeakerView();
+        else if (e.key === 'Escape') onExit();
+        else return;
+        e.preventDefault();
+    };
+
+    // Re-bound on every render so the handler sees the current slide; both windows drive the deck
+    useEffect(() => {
+        window.addEventListener('keydown', handleKey);
+        speaker?.window.addEventListener('keydown', handleKey);
+        return () => {
+            window.removeEventListener('keydown', handleKey);
+            speaker?.window.removeEventListener('keydown', handleKey);
+        };
+    });
+
+    useEffect(() => {
+        onExitRef.current = onExit;
+    });
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    // Leaving fullscreen (e.g. Escape, which the browser handles itself) ends the presentation
+    useEffect(() => {
+        const container = containerRef.current;
+        let entered = false;
+        const handleChange = () => {
+            if (document.fullscreenElement) entered = true;
+            else if (entered) onExitRef.current();
+        };
+        document.addEventListener('fullscreenchange', handleChange);
+        container?.requestFullscreen?.().catch(error => console.warn("Fullscreen was refused", error));
+        return () => {
+            document.removeEventListener('fullscreenchange', handleChange);
+            if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!speaker) return;
+        const handleClose = () => setSpeaker(null);
+        speaker.window.addEventListener('pagehide', handleClose);
+        return () => speaker.window.removeEventListener('pagehide', handleClose);
+    }, [speaker]);
+
+    // The speaker window belongs to this presentation
+    useEffect(() => () => speaker?.window.close(), [speaker]);
+
+    useEffect(() => () => clearTimeout(hideTimer.current), []);
+
+    const handleMouseMove = () => {
+        setShowControls(true);
+        clearTimeout(hideTimer.current);
+        hideTimer.current = setTimeout(() => setShowControls(false), CONTROLS_HIDE_MS);
+    };
+
+    const transition = TRANSITIONS[settings.transition] ?? TRANSITIONS.fade;
+    const slide = slides[index];
+    if (!slide) return null;
+
+    return (
+        <div
+            ref={containerRef}
+            onMouseMove={handleMouseMove}
+            className={`fixed inset-0 z-50 bg-black overflow-hidden select-none ${showControls ? '' : 'cursor-none'}`}
+        >
+            <div
+                className="absolute inset-0"
+                onClick={(e) => goTo(e.clientX < window.innerWidth / 3 ? index - 1 : index + 1)}
+            >
+                <AnimatePresence initial={false} custom={direction}>
+                    <motion.div
+                        key={slide.id}
+                        custom={direction}
+                        variants={transition.variants}
+                        initial="enter"
+                        animate="center"
+                        exit="exit"
+                        transition={{ duration: transition.duration, ease: 'easeInOut' }}
+                        className="absolute inset-0 flex items-center justify-center"
+                    >
+                        <div className="w-full max-h-full" style={{ maxWidth: 'calc(100vh * 16 / 9)' }}>
+                            <SlideFrame slide={slide} brandKit={brandKit} />
+                        </div>
+                    </motion.div>
+                </AnimatePresence>
+                {isBlank && <div className="absolute inset-0 bg-black" />}
+            </div>
+
+            <div
+                className={`absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-white/10 backdrop-blur-md text-white rounded-full px-3 py-1.5 text-sm transition-opacity ${showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+            >
+                <button onClick={() => goTo(index - 1)} disabled={index === 0} className="p-1 disabled:opacity-30" title="Previous">
+                    <ChevronLeft size={16} />
+                </button>
+                <span className="tabular-nums">{index + 1} / {slides.length}</span>
+                <button onClick={() => goTo(index + 1)} disabled={index === slides.length - 1} className="p-1 disabled:opacity-30" title="Next">
+                    <ChevronRight size={16} />
+                </button>
+                <select
+                    value={settings.transition}
+                    onChange={(e) => updateSettings({ transition: e.target.value as SlideTransition })}
+                    title="Transition"
+                    className="bg-transparent text-white text-xs outline-none cursor-pointer"
+                >
+                    {(Object.keys(TRANSITIONS) as SlideTransition[]).map(key => (
+                        <option key={key} value={key} className="text-black">{TRANSITIONS[key].label}</option>
+                    ))}
+                </select>
+                <button onClick={openSpeakerView} className="p-1 flex items-center gap-1 text-xs" title="Speaker view (S)">
+                    <MonitorUp size={16} /> Speaker view
+                </button>
+                <button onClick={onExit} className="p-1" title="Exit (Esc)">
+                    <X size={16} />
+                </button>
+            </div>
+
+            {speaker && createPortal(
+                <SpeakerView
+                    slides={slides}
+                    index={index}
+                    brandKit={brandKit}
+                    elapsedMs={now - startedAt}
+                    targetMinutes={settings.targetMinutes}
+                    onTargetChange={(targetMinutes) => updateSettings({ targetMinutes })}
+                    onResetTimer={() => {
+                        setStartedAt(Date.now());
+                        setNow(Date.now());
+                    }}
+                    onNavigate={goTo}
+                />,
+                speaker.root
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, FolderOpen, Image as ImageIcon, Pencil, Trash2 } from 'lucide-react';
+import { projectStore, type DeckProject, type ProjectSummary } from '../services/projectStore';
+
+interface ProjectListProps {
+    currentProjectId: string;
+    onOpen: (project: DeckProject) => void;
+}
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const ProjectList: React.FC<ProjectListProps> = ({ currentProjectId, onOpen }) => {
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        projectStore.list()
+            .then(setProjects)
+            .catch(error => console.error("Failed to load projects", error));
+    }, [reloadKey]);
+
+    const refresh = () => setReloadKey(key => key + 1);
+
+    const handleOpen = async (id: string) => {
+        const project = await projectStore.get(id);
+        if (project) {
+            onOpen(project);
+        } else {
+            alert("This project could not be found. It may have been deleted in another tab.");
+            refresh();
+        }
+    };
+
+    const handleDuplicate = async (id: string) => {
+        await projectStore.duplicate(id);
+        refresh();
+    };
+
+    const handleRenameStart = (project: ProjectSummary) => {
+        setRenamingId(project.id);
+        setRenameValue(project.name);
+    };
+
+    const handleRenameSubmit = async () => {
+        if (!renamingId) return;
+        const name = renameValue.trim();
+        if (name) {
+            await projectStore.rename(renamingId, name);
+        }
+        setRenamingId(null);
+        refresh();
+    };
+
+    const handleDelete = async (project: ProjectSummary) => {
+        if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+        await projectStore.delete(project.id);
+        refresh();
+    };
+
+    // The project being edited right now is already on screen
+    const visibleProjects = projects.filter(p => p.id !== currentProjectId);
+    if (visibleProjects.length === 0) return null;
+
+    return (
+        <div className="space-y-4">
+            <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Recent Decks</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {visibleProjects.map(project => (
+                    <div
+                        key={project.id}
+                        className="bg-white/80 rounded-2xl shadow-sm ring-1 ring-black/5 overflow-hidden group"
+                    >
+                        <button
+                            onClick={() => handleOpen(project.id)}
+                            className="block w-full aspect-video bg-gray-50"
+                        >
+                            {project.thumbnail ? (
+                                <img src={project.thumbnail} alt={project.name} className="w-full h-full object-cover" />
+                            ) : (
+                                <div className="w-full h-full flex items-center justify-center text-gray-300">
+                                    <ImageIcon size={28} />
+                                </div>
+                            )}
+                        </button>
+                        <div className="p-3 flex items-center justify-between gap-2">
+                            <div className="min-w-0 flex-1">
+                                {renamingId === project.id ? (
+                                    <input
+                                        value={renameValue}
+                                        onChange={(e) => setRenameValue(e.target.value)}
+                                        onBlur={handleRenameSubmit}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') handleRenameSubmit();
+                                            if (e.key === 'Escape') setRenamingId(null);
+                                        }}
+                                        className="w-full text-sm font-medium text-gray-900 border border-gray-200 rounded-md px-2 py-1 outline-none focus:ring-2 focus:ring-blue-500"
+                                        autoFocus
+                                    />
+                                ) : (
+                                    <p className="text-sm font-medium text-gray-900 truncate">{project.name}</p>
+                                )}
+                                <p className="text-xs text-gray-400">
+                                    {project.slideTotal} slides · {formatDate(project.updatedAt)}
+                                </p>
+                            </div>
+                            <div className="flex gap-1 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={() => handleOpen(project.id)} title="Open" className="p-1.5 hover:text-black">
+                                    <FolderOpen size={14} />
+                                </button>
+                                <button onClick={() => handleRenameStart(project)} title="Rename" className="p-1.5 hover:text-black">
+                                    <Pencil size={14} />
+                                </button>
+                                <button onClick={() => handleDuplicate(project.id)} title="Duplicate" className="p-1.5 hover:text-black">
+                                    <Copy size={14} />
+                                </button>
+                                <button onClick={() => handleDelete(project)} title="Delete" className="p-1.5 hover:text-red-500">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,471 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Ban, Brush, Check, ChevronLeft, ChevronRight, Edit2, FileCheck, History, Image as ImageIcon, Layers, Loader2, RefreshCw, Square, SquareDashed, StickyNote, Undo2, Wand2, X } from 'lucide-react';
+import { ERROR_LABELS } from '../services/errors';
+import type { BrandKit, Slide } from '../types/deck';
+import { dataVisualSvg, svgDataUrl } from '../utils/dataVisual';
+import type { MaskShape } from '../utils/mask';
+import { getPreviousVersion, MAX_VARIANTS } from '../utils/slideVersions';
+import { textCorrectionInstruction } from '../utils/textFidelity';
+import { MaskCanvas, type MaskTool } from './MaskCanvas';
+
+interface SlideCardProps {
+    slide: Slide;
+    /** With `mask`, only the marked area of the slide may change. */
+    onEdit: (instruction: string, mask?: MaskShape[]) => void;
+    onUndo: () => void;
+    onShowHistory: () => void;
+    /** Re-renders the slide from its visual prompt (retry after a failure, or a fresh roll). */
+    onRegenerate: () => void;
+    /** Renders the slide `count` times, to pick the best of them. */
+    onRenderVariants: (count: number) => void;
+    /** Shows one of the pending variants. */
+    onShowVariant: (versionId: string) => void;
+    /** Keeps the variant on show; the others stay in the history. */
+    onPickVariant: () => void;
+    onNotesChange: (notes: string) => void;
+    /** Regenerates the slide with fixes for its consistency issues. */
+    onMatchDeck: () => void;
+    /** Applies an edit that corrects the text OCR found wrong. */
+    onFixText: (instruction: string) => void;
+    /** Set while the slide can be cancelled (queued or rendering). */
+    onCancel?: () => void;
+    /** Styles the chart or table drawn over the image. */
+    brandKit?: BrandKit;
+}
+
+const toolbarButton = "bg-white/20 hover:bg-white/40 backdrop-blur-md text-white p-2 rounded-lg transition-colors";
+
+const BRUSH_SIZE = 0.04;
+
+const fidelityColor = (score: number) =>
+    score >= 0.95 ? 'bg-green-600/90' : score >= 0.8 ? 'bg-amber-500/90' : 'bg-red-500/90';
+
+export const SlideCard: React.FC<SlideCardProps> = ({ slide, onEdit, onUndo, onShowHistory, onRegenerate, onRenderVariants, onShowVariant, onPickVariant, onNotesChange, onMatchDeck, onFixText, onCancel, brandKit }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [editInstruction, setEditInstruction] = useState('');
+    const [isEditingNotes, setIsEditingNotes] = useState(false);
+    const [notesDraft, setNotesDraft] = useState('');
+    const [isReviewingText, setIsReviewingText] = useState(false);
+    const [isMasking, setIsMasking] = useState(false);
+    const [maskShapes, setMaskShapes] = useState<MaskShape[]>([]);
+    const [maskTool, setMaskTool] = useState<MaskTool>('rect');
+    const [isChoosingVariants, setIsChoosingVariants] = useState(false);
+
+    const handleNotesStart = () => {
+        setNotesDraft(slide.speakerNotes ?? '');
+        setIsEditingNotes(true);
+    };
+
+    const handleNotesSave = () => {
+        onNotesChange(notesDraft);
+        setIsEditingNotes(false);
+    };
+
+    const handleEditStart = () => {
+        setIsEditing(true);
+        setEditInstruction('');
+        setIsMasking(false);
+        setMaskShapes([]);
+    };
+
+    const handleEditSubmit = () => {
+        if (!editInstruction.trim()) return;
+        if (isMasking && maskShapes.length === 0) return;
+        setIsEditing(false);
+        onEdit(editInstruction, isMasking ? maskShapes : undefined);
+    };
+
+    const errorLabel = slide.error ? ERROR_LABELS[slide.error.kind] : 'Generation Failed';
+    // An error on a slide that is still generating means an automatic retry is in progress
+    const retryNote = slide.error && `Retrying after: ${ERROR_LABELS[slide.error.kind].toLowerCase()}...`;
+    // Only issues found on the image currently shown are relevant
+    const consistencyIssues = slide.consistency?.versionId === slide.activeVersionId ? slide.consistency?.issues ?? [] : [];
+    const dataVisual = useMemo(() => {
+        const svg = slide.content && dataVisualSvg(slide.content, brandKit);
+        return svg ? svgDataUrl(svg) : undefined;
+    }, [slide.content, brandKit]);
+    const fidelity = slide.textFidelity?.versionId === slide.activeVersionId ? slide.textFidelity : undefined;
+    const variantIds = slide.status === 'done' && slide.variantIds && slide.variantIds.length > 1 ? slide.variantIds : undefined;
+    const variantIndex = variantIds?.indexOf(slide.activeVersionId ?? '') ?? -1;
+    const variantModel = variantIds && slide.versions.find(v => v.id === slide.activeVersionId)?.model;
+
+    const handleFixText = () => {
+        if (!fidelity) return;
+        setIsReviewingText(false);
+        onFixText(textCorrectionInstruction(fidelity));
+    };
+
+    return (
+        <motion.div
+            layoutId={`slide-${slide.id}`}
+            className="aspect-video bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden relative group"
+        >
+            {slide.imageData ? (
+                <>
+                    <img src={slide.imageData} alt={slide.title} className="w-full h-full object-cover" />
+                    {dataVisual && (
+                        <img src={dataVisual} alt="" className="absolute inset-0 w-full h-full pointer-events-none" />
+                    )}
+                    {slide.status === 'generating' && (
+                        <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center backdrop-blur-sm z-10 transition-all duration-300">
+                            <Loader2 size={32} className="animate-spin text-white mb-2" />
+                            <span className="text-white text-sm font-medium">
+                                {retryNote || 'Regenerating...'}
+                            </span>
+                        </div>
+                    )}
+                    {slide.status === 'done' && slide.error && (
+                        <div
+                            className="absolute top-2 left-2 right-10 bg-red-500/90 text-white text-xs font-medium rounded-lg px-2 py-1 flex items-center gap-1 truncate"
+                            title={slide.error.message}
+                        >
+                            <AlertTriangle size={12} className="flex-shrink-0" />
+                            <span className="truncate">Last attempt failed: {errorLabel}</span>
+                        </div>
+                    )}
+                    {slide.status === 'done' && !slide.error && consistencyIssues.length > 0 && (
+                        <div className="absolute top-2 left-2 right-16 bg-amber-500/90 text-white text-xs font-medium rounded-lg px-2 py-1 flex items-center gap-2 z-10">
+                            <AlertTriangle size={12} className="flex-shrink-0" />
+                            <span className="truncate flex-1" title={consistencyIssues.map(issue => issue.message).join('\n')}>
+                                {consistencyIssues.map(issue => issue.message).join(' · ')}
+                            </span>
+                            <button
+                                onClick={onMatchDeck}
+                                title="Regenerate to match deck"
+                                className="flex-shrink-0 flex items-center gap-1 bg-white/20 hover:bg-white/40 rounded px-1.5 py-0.5 transition-colors"
+                            >
+                                <Wand2 size={12} />
+                                Match deck
+                            </button>
+                        </div>
+                    )}
+                    {slide.status === 'done' && fidelity && (
+                        <button
+                            onClick={() => setIsReviewingText(true)}
+                            title="Share of the planned text found on the slide"
+                            className={`absolute top-2 right-2 z-10 ${fidelityColor(fidelity.score)} text-white text-xs font-medium rounded-lg px-2 py-1 flex items-center gap-1`}
+                        >
+                            <FileCheck size={12} />
+                            {Math.round(fidelity.score * 100)}%
+                        </button>
+                    )}
+                    {variantIds && (
+                        <>
+                            <button
+                                onClick={() => onShowVariant(variantIds[(variantIndex - 1 + variantIds.length) % variantIds.length])}
+                                title="Previous variant"
+                                className="absolute left-2 top-1/2 -translate-y-1/2 z-10 bg-black/40 hover:bg-black/60 text-white rounded-full p-1.5 transition-colors"
+                            >
+                                <ChevronLeft size={16} />
+                            </button>
+                            <button
+                                onClick={() => onShowVariant(variantIds[(variantIndex + 1) % variantIds.length])}
+                                title="Next variant"
+                                className="absolute right-2 top-1/2 -translate-y-1/2 z-10 bg-black/40 hover:bg-black/60 text-white rounded-full p-1.5 transition-colors"
+                            >
+                                <ChevronRight size={16} />
+                            </button>
+                            <div className="absolute bottom-16 left-1/2 -translate-x-1/2 z-10 bg-black/70 text-white text-xs font-medium rounded-full pl-3 pr-1 py-1 flex items-center gap-2 whitespace-nowrap">
+                                <span>
+                                    Variant {variantIndex + 1} of {variantIds.length}
+                                    {variantModel && <span className="text-white/60"> · {variantModel}</span>}
+                                </span>
+                                <button
+                                    onClick={onPickVariant}
+                                    title="Keep this variant; the others stay in the history"
+                                    className="flex items-center gap-1 bg-white text-gray-900 hover:bg-gray-200 rounded-full px-2 py-0.5 transition-colors"
+                                >
+                                    <Check size={12} />
+                                    Keep
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </>
+            ) : (
+                <div className="w-full h-full flex flex-col items-center justify-center bg-gray-50 text-gray-400 p-4 text-center">
+                    {slide.status === 'generating' ? (
+                        <Loader2 size={32} className="animate-spin text-blue-500" />
+                    ) : slide.status === 'error' ? (
+                        <div className="text-red-500 flex flex-col items-center">
+                            <X size={32} />
+                            <span className="mt-2 text-sm font-medium">{errorLabel}</span>
+                            {slide.error && (
+                                <span className="mt-1 text-xs text-red-400 line-clamp-2" title={slide.error.message}>
+                                    {slide.error.message}
+                                </span>
+                            )}
+                        </div>
+                    ) : slide.status === 'cancelled' ? (
+                        <Ban size={32} />
+                    ) : (
+                        <ImageIcon size={32} />
+                    )}
+                    <span className="mt-2 text-sm font-medium">
+                        {slide.status === 'generating'
+                            ? retryNote || 'Rendering...'
+                            : slide.status === 'error' ? '' : slide.status === 'cancelled' ? 'Cancelled' : 'Waiting...'}
+                    </span>
+                    {(slide.status === 'error' || slide.status === 'cancelled') && (
+                        <button
+                            onClick={onRegenerate}
+                            className="mt-3 text-xs px-3 py-1.5 bg-black text-white rounded-lg font-medium hover:bg-gray-800 flex items-center gap-1"
+                        >
+                            <RefreshCw size={12} />
+                            Retry
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {onCancel && (
+                <button
+                    onClick={onCancel}
+                    title="Cancel this slide"
+                    className="absolute top-2 right-2 z-20 bg-white/80 hover:bg-white rounded-full p-1.5 shadow-sm text-gray-500 hover:text-red-500 transition-colors"
+                >
+                    <X size={14} />
+                </button>
+            )}
+
+            <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/50 to-transparent p-4 opacity-0 group-hover:opacity-100 transition-opacity flex justify-between items-end">
+                <p className="text-white text-sm font-medium">{slide.title}</p>
+
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleNotesStart}
+                        title={slide.speakerNotes ? 'Speaker notes' : 'Add speaker notes'}
+                        className={toolbarButton}
+                    >
+                        <StickyNote size={16} />
+                    </button>
+                    {slide.status === 'done' && (
+                        <>
+                            {getPreviousVersion(slide) && (
+                                <button onClick={onUndo} title="Undo to previous version" className={toolbarButton}>
+                                    <Undo2 size={16} />
+                                </button>
+                            )}
+                            {slide.versions.length > 1 && (
+                                <button onClick={onShowHistory} title="Version history" className={toolbarButton}>
+                                    <History size={16} />
+                                </button>
+                            )}
+                            <button onClick={onRegenerate} title="Regenerate from prompt" className={toolbarButton}>
+                                <RefreshCw size={16} />
+                            </button>
+                            <button onClick={() => setIsChoosingVariants(true)} title="Render variants to pick from" className={toolbarButton}>
+                                <Layers size={16} />
+                            </button>
+                            <button onClick={handleEditStart} title="Edit slide" className={toolbarButton}>
+                                <Edit2 size={16} />
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {/* Speaker Notes Overlay */}
+            {isEditingNotes && (
+                <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-10">
+                    <div className="bg-white rounded-xl p-4 w-full h-full shadow-2xl flex flex-col gap-3">
+                        <h3 className="text-sm font-semibold text-gray-900">Speaker Notes</h3>
+                        <textarea
+                            value={notesDraft}
+                            onChange={(e) => setNotesDraft(e.target.value)}
+                            placeholder="What to say while this slide is up..."
+                            className="flex-1 w-full text-sm border border-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-blue-500 outline-none resize-none"
+                            autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                            <button
+                                onClick={() => setIsEditingNotes(false)}
+                                className="text-xs px-3 py-1.5 text-gray-500 font-medium hover:text-gray-700"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleNotesSave}
+                                className="text-xs px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700"
+                            >
+                                Save
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Variants Overlay */}
+            {isChoosingVariants && (
+                <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-20">
+                    <div className="bg-white rounded-xl p-4 w-full shadow-2xl space-y-3">
+                        <h3 className="text-sm font-semibold text-gray-900">Render variants</h3>
+                        <p className="text-xs text-gray-500">
+                            Renders the slide several times, on the deck's variant providers, for you to pick the best.
+                            The current image stays in the history.
+                        </p>
+                        <div className="flex items-center gap-2">
+                            {Array.from({ length: MAX_VARIANTS - 1 }, (_, i) => i + 2).map(count => (
+                                <button
+                                    key={count}
+                                    onClick={() => {
+                                        setIsChoosingVariants(false);
+                                        onRenderVariants(count);
+                                    }}
+                                    className="text-xs px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700"
+                                >
+                                    {count} variants
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => setIsChoosingVariants(false)}
+                                className="ml-auto text-xs px-3 py-1.5 text-gray-500 font-medium hover:text-gray-700"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Text Check Overlay */}
+            {isReviewingText && fidelity && (
+                <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-20">
+                    <div className="bg-white rounded-xl p-4 w-full h-full shadow-2xl flex flex-col gap-3">
+                        <h3 className="text-sm font-semibold text-gray-900">
+                            Text check: {Math.round(fidelity.score * 100)}% of the planned text found
+                        </h3>
+                        <div className="flex-1 overflow-y-auto space-y-1 text-sm text-gray-700">
+                            {fidelity.lines.map((line, i) => (
+                                <p key={i}>
+                                    {line.map((word, j) => (
+                                        <React.Fragment key={j}>
+                                            {j > 0 && ' '}
+                                            <span
+                                                title={word.ok ? undefined : word.found ? `Reads as "${word.found}"` : 'Missing'}
+                                                className={word.ok ? undefined : word.found
+                                                    ? 'bg-amber-100 text-amber-800 underline decoration-wavy decoration-amber-500'
+                                                    : 'bg-red-100 text-red-700 line-through'}
+                                            >
+                                                {word.text}
+                                            </span>
+                                        </React.Fragment>
+                                    ))}
+                                </p>
+                            ))}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <button
+                                onClick={() => setIsReviewingText(false)}
+                                className="text-xs px-3 py-1.5 text-gray-500 font-medium hover:text-gray-700"
+                            >
+                                Close
+                            </button>
+                            <button
+                                onClick={handleFixText}
+                                disabled={fidelity.score === 1}
+                                className="text-xs px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 flex items-center gap-1 disabled:opacity-50"
+                            >
+                                <Wand2 size={12} />
+                                Auto-fix text
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Area Edit Overlay: the slide stays visible to draw on */}
+            {isEditing && isMasking && (
+                <div className="absolute inset-0 z-10">
+                    <MaskCanvas shapes={maskShapes} tool={maskTool} brushSize={BRUSH_SIZE} onChange={setMaskShapes} />
+                    <div className="absolute top-2 left-2 flex gap-1 bg-black/60 backdrop-blur-md rounded-lg p-1">
+                        <button
+                            onClick={() => setMaskTool('rect')}
+                            title="Rectangle"
+                            className={`p-1.5 rounded text-white ${maskTool === 'rect' ? 'bg-white/30' : 'hover:bg-white/20'}`}
+                        >
+                            <Square size={14} />
+                        </button>
+                        <button
+                            onClick={() => setMaskTool('brush')}
+                            title="Brush"
+                            className={`p-1.5 rounded text-white ${maskTool === 'brush' ? 'bg-white/30' : 'hover:bg-white/20'}`}
+                        >
+                            <Brush size={14} />
+                        </button>
+                        <button
+                            onClick={() => setMaskShapes(shapes => shapes.slice(0, -1))}
+                            disabled={maskShapes.length === 0}
+                            title="Undo last shape"
+                            className="p-1.5 rounded text-white hover:bg-white/20 disabled:opacity-40"
+                        >
+                            <Undo2 size={14} />
+                        </button>
+                    </div>
+                    <div className="absolute bottom-2 left-2 right-2 bg-white rounded-lg shadow-2xl p-2 flex gap-2 items-center">
+                        <input
+                            value={editInstruction}
+                            onChange={(e) => setEditInstruction(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleEditSubmit()}
+                            placeholder={maskShapes.length ? "What should change in the marked area?" : "Mark the area to change first"}
+                            className="flex-1 min-w-0 text-sm px-2 py-1 outline-none"
+                            autoFocus
+                        />
+                        <button
+                            onClick={() => setIsMasking(false)}
+                            className="text-xs px-2 py-1.5 text-gray-500 font-medium hover:text-gray-700 whitespace-nowrap"
+                        >
+                            Whole slide
+                        </button>
+                        <button
+                            onClick={handleEditSubmit}
+                            disabled={maskShapes.length === 0 || !editInstruction.trim()}
+                            className="text-xs px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            Update
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Edit Overlay */}
+            {isEditing && !isMasking && (
+                <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-10">
+                    <div className="bg-white rounded-xl p-4 w-full shadow-2xl space-y-3">
+                        <h3 className="text-sm font-semibold text-gray-900">Edit Slide</h3>
+                        <textarea
+                            value={editInstruction}
+                            onChange={(e) => setEditInstruction(e.target.value)}
+                            placeholder="e.g. 'Make the background darker' or 'Change text to...'"
+                            className="w-full text-sm border border-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-blue-500 outline-none resize-none h-20"
+                            autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                            <button
+                                onClick={() => setIsMasking(true)}
+                                title="Only change a part of the slide"
+                                className="mr-auto text-xs px-3 py-1.5 text-gray-600 font-medium hover:text-black flex items-center gap-1"
+                            >
+                                <SquareDashed size={12} />
+                                Select area
+                            </button>
+                            <button
+                                onClick={() => setIsEditing(false)}
+                                className="text-xs px-3 py-1.5 text-gray-500 font-medium hover:text-gray-700"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleEditSubmit}
+                                className="text-xs px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700"
+                            >
+                                Update
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </motion.div>
+    );
+};
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { BarChart3, Table2, X } from 'lucide-react';
+import type { SlideContent, SlideLayout, SlideMetric } from '../types/deck';
+import { LAYOUT_TEMPLATES, SLIDE_LAYOUTS } from '../utils/layouts';
+
+interface SlideContentEditorProps {
+    content: SlideContent;
+    disabled?: boolean;
+    onChange: (content: SlideContent) => void;
+}
+
+// Metrics are edited as "value | label" lines
+const formatMetrics = (metrics: SlideMetric[] = []) => metrics.map(m => `${m.value} | ${m.label}`).join('\n');
+
+const parseMetrics = (text: string): SlideMetric[] => text.split('\n')
+    .map(line => {
+        const [value, ...label] = line.split('|');
+        return { value: value.trim(), label: label.join('|').trim() };
+    })
+    .filter(metric => metric.value);
+
+const fieldInput = "w-full text-sm text-gray-700 bg-gray-50 rounded-lg px-3 py-1.5 outline-none focus:ring-2 focus:ring-blue-500";
+
+/**
+ * Field-by-field editor for what is on a slide. Optional fields are stored as
+ * undefined rather than empty strings, so they drop out of the image prompt.
+ */
+export const SlideContentEditor: React.FC<SlideContentEditorProps> = ({ content, disabled, onChange }) => {
+    // Bullets are edited as lines; the draft keeps blank lines while typing
+    const [bulletsDraft, setBulletsDraft] = useState(content.bullets.join('\n'));
+    const [metricsDraft, setMetricsDraft] = useState(formatMetrics(content.metrics));
+
+    const update = (changes: Partial<SlideContent>) => onChange({ ...content, ...changes });
+
+    const handleBulletsChange = (value: string) => {
+        setBulletsDraft(value);
+        update({ bullets: value.split('\n').map(line => line.trim()).filter(Boolean) });
+    };
+
+    const handleMetricsChange = (value: string) => {
+        setMetricsDraft(value);
+        const metrics = parseMetrics(value);
+        update({ metrics: metrics.length > 0 ? metrics : undefined });
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-2">
+                <select
+                    value={content.layout}
+                    onChange={(e) => update({ layout: e.target.value as SlideLayout })}
+                    disabled={disabled}
+                    className={`${fieldInput} w-40 flex-shrink-0`}
+                >
+                    {SLIDE_LAYOUTS.map(layout => <option key={layout} value={layout}>{LAYOUT_TEMPLATES[layout].label}</option>)}
+                </select>
+                <input
+                    value={content.title}
+                    onChange={(e) => update({ title: e.target.value })}
+                    disabled={disabled}
+                    placeholder="Heading"
+                    className={`${fieldInput} font-medium`}
+                />
+            </div>
+            <input
+                value={content.subtitle ?? ''}
+                onChange={(e) => update({ subtitle: e.target.value || undefined })}
+                disabled={disabled}
+                placeholder="Subheading (optional)"
+                className={fieldInput}
+            />
+            <textarea
+                value={bulletsDraft}
+                onChange={(e) => handleBulletsChange(e.target.value)}
+                disabled={disabled}
+                placeholder="Bullets, one per line"
+                className={`${fieldInput} h-20 resize-y`}
+            />
+            <textarea
+                value={content.body ?? ''}
+                onChange={(e) => update({ body: e.target.value || undefined })}
+                disabled={disabled}
+                placeholder="Body text (optional)"
+                className={`${fieldInput} h-12 resize-y`}
+            />
+            {(content.layout === 'kpi-grid' || content.metrics) && (
+                <textarea
+                    value={metricsDraft}
+                    onChange={(e) => handleMetricsChange(e.target.value)}
+                    disabled={disabled}
+                    placeholder="KPI tiles, one per line: value | label, e.g. '42% | Repeat customers'"
+                    className={`${fieldInput} h-16 resize-y`}
+                />
+            )}
+            <input
+                value={content.imageDescription ?? ''}
+                onChange={(e) => update({ imageDescription: e.target.value || undefined })}
+                disabled={disabled}
+                placeholder="Image on the slide (optional), e.g. 'photo of a barista pouring latte art'"
+                className={fieldInput}
+            />
+            {content.chart && (
+                <div className="flex items-center gap-2 text-xs text-gray-500 bg-gray-50 rounded-lg px-3 py-1.5">
+                    <BarChart3 size={14} className="flex-shrink-0" />
+                    <span className="flex-1 truncate">
+                        {content.chart.type} chart: {content.chart.series.map(s => `${s.name || 'series'} (${s.values.length} points)`).join(', ')}
+                        {content.chart.source && ` · from ${content.chart.source.file}`}
+                    </span>
+                    <button
+                        onClick={() => update({ chart: undefined })}
+                        disabled={disabled}
+                        title="Remove chart"
+                        className="text-gray-400 hover:text-red-500"
+                    >
+                        <X size={12} />
+                    </button>
+                </div>
+            )}
+            {content.table && (
+                <div className="flex items-center gap-2 text-xs text-gray-500 bg-gray-50 rounded-lg px-3 py-1.5">
+                    <Table2 size={14} className="flex-shrink-0" />
+                    <span className="flex-1 truncate">
+                        Table: {content.table.columns.join(', ')} ({content.table.rows.length} rows)
+                        {content.table.source && ` · from ${content.table.source.file}`}
+                    </span>
+                    <button
+                        onClick={() => update({ table: undefined })}
+                        disabled={disabled}
+                        title="Remove table"
+                        className="text-gray-400 hover:text-red-500"
+                    >
+                        <X size={12} />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
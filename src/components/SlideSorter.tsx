@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Copy, GripVertical, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { Slide } from '../types/deck';
+
+interface SlideSorterProps {
+    slides: Slide[];
+    renderCard: (slide: Slide) => React.ReactNode;
+    /** Moves the slide so it ends up at `index`. */
+    onMove: (slideId: string, index: number) => void;
+    /** Inserts a copy of the slide right after it. */
+    onDuplicate: (slideId: string) => void;
+    onDelete: (slideId: string) => void;
+    /** Plans a slide from the prompt and inserts it at `index`, before the slide there. */
+    onInsert: (index: number, prompt: string) => Promise<void>;
+}
+
+const iconButton = "p-1 text-gray-400 hover:text-black disabled:opacity-30 disabled:hover:text-gray-400 transition-colors";
+
+/**
+ * The rendered deck as a sortable grid: drag a slide by its handle (or focus the handle
+ * and use the arrow keys) to move it, and duplicate, delete or add slides in place.
+ */
+export const SlideSorter: React.FC<SlideSorterProps> = ({ slides, renderCard, onMove, onDuplicate, onDelete, onInsert }) => {
+    const [dragId, setDragId] = useState<string | null>(null);
+    // Where the dragged slide would land, as an index between slides (0 to slides.length)
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+    const [insertAt, setInsertAt] = useState<number | null>(null);
+    const [prompt, setPrompt] = useState('');
+    const [isInserting, setIsInserting] = useState(false);
+
+    const endDrag = () => {
+        setDragId(null);
+        setDropIndex(null);
+    };
+
+    const handleDragOver = (e: React.DragEvent, index: number) => {
+        if (!dragId) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        const rect = e.currentTarget.getBoundingClientRect();
+        setDropIndex(e.clientX > rect.left + rect.width / 2 ? index + 1 : index);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        const from = slides.findIndex(s => s.id === dragId);
+        if (dragId && from !== -1 && dropIndex !== null) {
+            // The drop index counts the dragged slide itself, which leaves its old place first
+            const to = dropIndex > from ? dropIndex - 1 : dropIndex;
+            if (to !== from) onMove(dragId, to);
+        }
+        endDrag();
+    };
+
+    const handleHandleKey = (e: React.KeyboardEvent, index: number) => {
+        const offset = e.key === 'ArrowLeft' || e.key === 'ArrowUp' ? -1 : e.key === 'ArrowRight' || e.key === 'ArrowDown' ? 1 : 0;
+        const target = index + offset;
+        if (offset === 0 || target < 0 || target >= slides.length) return;
+        e.preventDefault();
+        onMove(slides[index].id, target);
+    };
+
+    const handleDelete = (slide: Slide) => {
+        if (slide.versions.length > 0 && !confirm(`Delete slide ${slide.slideNumber} and its ${slide.versions.length} version(s)?`)) return;
+        onDelete(slide.id);
+    };
+
+    const openInsert = (index: number) => {
+        setInsertAt(index);
+        setPrompt('');
+    };
+
+    const submitInsert = async () => {
+        if (insertAt === null || !prompt.trim()) return;
+        setIsInserting(true);
+        try {
+            await onInsert(insertAt, prompt.trim());
+            setInsertAt(null);
+        } catch (error) {
+            console.error("Adding slide failed", error);
+            alert("Could not plan the new slide. Check console.");
+        } finally {
+            setIsInserting(false);
+        }
+    };
+
+    const insertForm = (
+        <div key="insert" className="aspect-video mt-7 rounded-xl border-2 border-dashed border-blue-300 bg-blue-50/50 p-4 flex flex-col gap-3">
+            <textarea
+                autoFocus
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submitInsert();
+                    if (e.key === 'Escape') setInsertAt(null);
+                }}
+                disabled={isInserting}
+                placeholder="What should the new slide show? It is planned to fit between its neighbours."
+                className="flex-1 w-full p-3 text-sm bg-white rounded-lg border border-gray-200 resize-none focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={() => setInsertAt(null)}
+                    disabled={isInserting}
+                    className="text-xs px-3 py-1.5 text-gray-500 font-medium hover:text-gray-700"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={submitInsert}
+                    disabled={isInserting || !prompt.trim()}
+                    className="text-xs px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1.5"
+                >
+                    {isInserting ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+                    {isInserting ? 'Planning...' : 'Add slide'}
+                </button>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6" onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropIndex(null);
+        }}>
+            {slides.map((slide, index) => (
+                <React.Fragment key={slide.id}>
+                    {insertAt === index && insertForm}
+                    <motion.div
+                        layout="position"
+                        data-slide-id={slide.id}
+                        onDragOver={(e) => handleDragOver(e, index)}
+                        onDrop={handleDrop}
+                        className={`relative ${dragId === slide.id ? 'opacity-40' : ''}`}
+                    >
+                        {dropIndex === index && (
+                            <div className="absolute -left-3.5 top-7 bottom-0 w-1 rounded-full bg-blue-500" />
+                        )}
+                        {dropIndex === slides.length && index === slides.length - 1 && (
+                            <div className="absolute -right-3.5 top-7 bottom-0 w-1 rounded-full bg-blue-500" />
+                        )}
+                        <div className="flex items-center gap-1 h-7 text-xs text-gray-500">
+                            <button
+                                draggable
+                                onDragStart={(e) => {
+                                    setDragId(slide.id);
+                                    e.dataTransfer.effectAllowed = 'move';
+                                    e.dataTransfer.setData('text/plain', slide.id);
+                                    const card = e.currentTarget.closest('[data-slide-id]');
+                                    if (card) e.dataTransfer.setDragImage(card, 24, 24);
+                                }}
+                                onDragEnd={endDrag}
+                                onKeyDown={(e) => handleHandleKey(e, index)}
+                                title="Drag to reorder (or use the arrow keys)"
+                                className={`${iconButton} cursor-grab active:cursor-grabbing`}
+                            >
+                                <GripVertical size={14} />
+                            </button>
+                            <span className="font-medium text-gray-700">{slide.slideNumber}</span>
+                            <span className="truncate flex-1" title={slide.title}>{slide.title}</span>
+                            <button onClick={() => openInsert(index + 1)} disabled={isInserting} title="Add slide after" className={iconButton}>
+                                <Plus size={14} />
+                            </button>
+                            <button onClick={() => onDuplicate(slide.id)} title="Duplicate slide" className={iconButton}>
+                                <Copy size={14} />
+                            </button>
+                            <button
+                                onClick={() => handleDelete(slide)}
+                                disabled={slides.length === 1}
+                                title="Delete slide"
+                                className={`${iconButton} hover:text-red-500`}
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                        {renderCard(slide)}
+                    </motion.div>
+                </React.Fragment>
+            ))}
+            {insertAt === slides.length ? insertForm : (
+                <button
+                    onClick={() => openInsert(slides.length)}
+                    onDragOver={(e) => {
+                        if (!dragId) return;
+                        e.preventDefault();
+                        setDropIndex(slides.length);
+                    }}
+                    onDrop={handleDrop}
+                    disabled={isInserting}
+                    className="aspect-video mt-7 rounded-xl border-2 border-dashed border-gray-200 text-gray-400 hover:text-blue-600 hover:border-blue-300 transition-colors flex flex-col items-center justify-center gap-2 text-sm font-medium"
+                >
+                    <Plus size={24} />
+                    Add slide
+                </button>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Columns2, RotateCcw, X } from 'lucide-react';
+import type { Slide, SlideVersion } from '../types/deck';
+
+interface VersionHistoryProps {
+    slide: Slide;
+    onRestore: (versionId: string) => void;
+    onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<SlideVersion['source'], string> = {
+    generate: 'Generated',
+    edit: 'Edited',
+    import: 'Imported',
+};
+
+const describeVersion = (version: SlideVersion, index: number) =>
+    `v${index + 1} · ${SOURCE_LABELS[version.source]}${version.model ? ` with ${version.model}` : ''}`;
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ slide, onRestore, onClose }) => {
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+
+    const toggleCompare = (versionId: string) => {
+        setCompareIds(prev => {
+            if (prev.includes(versionId)) return prev.filter(id => id !== versionId);
+            // Keep the most recent two picks
+            return [...prev, versionId].slice(-2);
+        });
+    };
+
+    const comparing = compareIds.length === 2
+        ? compareIds.map(id => slide.versions.findIndex(v => v.id === id)).sort((a, b) => a - b)
+        : null;
+
+    // Newest first
+    const ordered = slide.versions.map((version, index) => ({ version, index })).reverse();
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-8"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-full overflow-y-auto p-6 space-y-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-900">Version History</h3>
+                        <p className="text-sm text-gray-500">{slide.title} · pick two versions to compare</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 text-gray-400 hover:text-black transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {comparing && (
+                    <div className="grid grid-cols-2 gap-4">
+                        {comparing.map(index => {
+                            const version = slide.versions[index];
+                            return (
+                                <div key={version.id} className="space-y-2">
+                                    <img src={version.imageData} alt={`Version ${index + 1}`} className="w-full aspect-video object-cover rounded-xl ring-1 ring-black/5" />
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-sm font-medium text-gray-700">{describeVersion(version, index)}</span>
+                                        {version.id !== slide.activeVersionId && (
+                                            <button
+                                                onClick={() => onRestore(version.id)}
+                                                className="text-xs px-3 py-1.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 flex items-center gap-1"
+                                            >
+                                                <RotateCcw size={12} />
+                                                Restore
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                    {ordered.map(({ version, index }) => {
+                        const isActive = version.id === slide.activeVersionId;
+                        const isSelected = compareIds.includes(version.id);
+                        return (
+                            <div
+                                key={version.id}
+                                className={`rounded-xl overflow-hidden ring-2 transition-colors ${isActive ? 'ring-blue-500' : isSelected ? 'ring-gray-900' : 'ring-transparent'}`}
+                            >
+                                <div className="relative">
+                                    <img src={version.imageData} alt={`Version ${index + 1}`} className="w-full aspect-video object-cover bg-gray-50" />
+                                    {version.editArea && (
+                                        <div
+                                            title="Edited area"
+                                            className="absolute border-2 border-dashed border-blue-500 rounded-sm pointer-events-none"
+                                            style={{
+                                                left: `${version.editArea.x * 100}%`,
+                                                top: `${version.editArea.y * 100}%`,
+                                                width: `${version.editArea.w * 100}%`,
+                                                height: `${version.editArea.h * 100}%`,
+                                            }}
+                                        />
+                                    )}
+                                </div>
+                                <div className="p-2 space-y-1 bg-gray-50">
+                                    <p className="text-xs font-medium text-gray-900">
+                                        {describeVersion(version, index)}
+                                        {isActive && <span className="ml-1 text-blue-600">(current)</span>}
+                                    </p>
+                                    <p className="text-[10px] text-gray-400">{new Date(version.createdAt).toLocaleString()}</p>
+                                    {version.source === 'edit' && version.instruction && (
+                                        <p className="text-[11px] text-gray-600 line-clamp-2" title={version.instruction}>"{version.instruction}"</p>
+                                    )}
+                                    <div className="flex gap-2 pt-1">
+                                        <button
+                                            onClick={() => toggleCompare(version.id)}
+                                            className={`text-[11px] flex items-center gap-1 font-medium ${isSelected ? 'text-black' : 'text-gray-500 hover:text-black'}`}
+                                        >
+                                            <Columns2 size={12} />
+                                            {isSelected ? 'Comparing' : 'Compare'}
+                                        </button>
+                                        {!isActive && (
+                                            <button
+                                                onClick={() => onRestore(version.id)}
+                                                className="text-[11px] flex items-center gap-1 font-medium text-blue-600 hover:text-blue-800"
+                                            >
+                                                <RotateCcw size={12} />
+                                                Restore
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </motion.div>
+    );
+};
@@ -0,0 +1,9 @@
+/**
+ * Base URL of the ProDeck server (`npm run server`), e.g. '/api'. When set, Gemini and
+ * OpenAI requests go through it and the vendor keys stay on the server.
+ */
+const PROXY_URL = (import.meta.env.VITE_API_PROXY_URL || '').replace(/\/+$/, '');
+
+export const USE_API_PROXY = PROXY_URL !== '';
+
+export const proxyUrl = (path: string) => `${PROXY_URL}${path}`;
@@ -0,0 +1,92 @@
+import type { BrandColor, BrandKit, SlideCorner, TitlePlacement } from '../types/deck';
+import { cropImage, extractPalette } from '../utils/image';
+import type { DeckPlanner } from './planners';
+
+export const TITLE_PLACEMENTS: TitlePlacement[] = ['top-left', 'top-center', 'middle-left', 'center'];
+export const LOGO_CORNERS: SlideCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+    palette: [],
+    fonts: { heading: 'Inter', body: 'Inter' },
+    margin: 0.06,
+    titlePlacement: 'top-left',
+};
+
+// Pixel counts can't tell roles apart, but the most common color is nearly always the background
+const PIXEL_PALETTE_ROLES = ['background', 'primary', 'secondary', 'accent', 'accent'];
+
+const HEX_COLOR = /^#?([0-9a-f]{6})$/i;
+
+export const normalizeHex = (value: string): string | undefined => {
+    const match = HEX_COLOR.exec(value.trim());
+    return match ? `#${match[1].toUpperCase()}` : undefined;
+};
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null;
+
+const asString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const parsePalette = (value: unknown): BrandColor[] => {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap(item => {
+        const hex = isObject(item) && typeof item.hex === 'string' ? normalizeHex(item.hex) : undefined;
+        return hex ? [{ hex, role: (isObject(item) && asString(item.role)) || 'accent' }] : [];
+    });
+};
+
+/**
+ * Crops the logo the analysis pointed at out of its reference image.
+ */
+const parseLogo = async (value: unknown, sources: string[]): Promise<BrandKit['logo']> => {
+    if (!isObject(value) || !isObject(value.region)) return undefined;
+    const source = sources[Number(value.imageIndex)];
+    const { x, y, w, h } = value.region;
+    if (!source || ![x, y, w, h].every(n => typeof n === 'number' && n >= 0 && n <= 1)) return undefined;
+    if ((w as number) <= 0 || (h as number) <= 0) return undefined;
+
+    const placement = LOGO_CORNERS.find(corner => corner === value.placement) ?? 'top-right';
+    const imageData = await cropImage(source, { x: x as number, y: y as number, w: w as number, h: h as number });
+    return { imageData, placement };
+};
+
+/**
+ * Builds a brand kit from the reference images: colors are measured from the pixels,
+ * while fonts, margins, title placement and the logo come from a vision pass by the
+ * deck's planner, so the images go nowhere the plan doesn't. If that pass fails (no key,
+ * offline) or the planner can't see images, the kit still has the measured palette.
+ */
+export const extractBrandKit = async (referenceImages: File[], planner: DeckPlanner): Promise<BrandKit> => {
+    const sources = referenceImages.map(file => URL.createObjectURL(file));
+    try {
+        const [measured, analysis] = await Promise.all([
+            extractPalette(sources),
+            planner.analyzeBrand(referenceImages).catch((error) => {
+                console.warn('Brand analysis failed; the kit only has measured colors', error);
+                return null;
+            }),
+        ]);
+
+        const analyzed = isObject(analysis) ? analysis : {};
+        const palette = parsePalette(analyzed.palette);
+        const margin = Number(analyzed.margin);
+
+        return {
+            palette: palette.length >= 2
+                ? palette
+                : measured.map((hex, i) => ({ hex, role: PIXEL_PALETTE_ROLES[i] ?? 'accent' })),
+            fonts: {
+                heading: asString(analyzed.headingFont) ?? DEFAULT_BRAND_KIT.fonts.heading,
+                body: asString(analyzed.bodyFont) ?? DEFAULT_BRAND_KIT.fonts.body,
+            },
+            logo: await parseLogo(analyzed.logo, sources).catch(() => undefined),
+            margin: margin > 0 && margin < 0.25 ? margin : DEFAULT_BRAND_KIT.margin,
+            titlePlacement: TITLE_PLACEMENTS.find(p => p === analyzed.titlePlacement) ?? DEFAULT_BRAND_KIT.titlePlacement,
+            styleNotes: asString(analyzed.styleNotes),
+        };
+    } finally {
+        sources.forEach(url => URL.revokeObjectURL(url));
+    }
+};
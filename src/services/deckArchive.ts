@@ -0,0 +1,247 @@
+import JSZip from 'jszip';
+import type { BrandKit, Slide, SlideMedia, SlideVersion } from '../types/deck';
+import { normalizeProject, type DeckProject } from './projectStore';
+
+/**
+ * The .prodeck file: a zip with the whole project, so a teammate can open it and
+ * keep iterating where it was left.
+ *
+ *   manifest.json                  format, schema version, project settings, brand kit, file index
+ *   slides.json                    the slides: plan, prompts, notes, checks, version history
+ *   references/, context/          the style refs and context documents, as uploaded
+ *   slides/<id>/<version>.<ext>    every image version of every slide
+ *   slides/<id>/background.<ext>   the text-free background, media/<n>.<ext> imported pictures
+ *   brand/logo.<ext>               the brand kit's logo
+ *
+ * Images are stored as files rather than data URLs in the JSON, and referred to by path.
+ */
+
+export const PRODECK_EXTENSION = 'prodeck';
+
+const FORMAT = 'prodeck';
+
+// Bump when the archive layout or the stored slide shape changes, and add a migration below
+const SCHEMA_VERSION = 1;
+
+/**
+ * Raised when a file can't be read as a deck: not a .prodeck, damaged, or written by a newer version.
+ */
+export class DeckArchiveError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DeckArchiveError';
+    }
+}
+
+interface StoredFile {
+    path: string;
+    name: string;
+    type: string;
+    lastModified: number;
+}
+
+type StoredVersion = Omit<SlideVersion, 'imageData'> & { path: string };
+
+type StoredMedia = Omit<SlideMedia, 'imageData'> & { path: string };
+
+type StoredSlide = Omit<Slide, 'imageData' | 'versions' | 'background' | 'media'> & {
+    versions: StoredVersion[];
+    background?: { versionId: string; path: string };
+    media?: StoredMedia[];
+};
+
+type StoredBrandKit = Omit<BrandKit, 'logo'> & {
+    logo?: { path: string; placement: NonNullable<BrandKit['logo']>['placement'] };
+};
+
+interface Manifest {
+    format: typeof FORMAT;
+    schemaVersion: number;
+    exportedAt: number;
+    project: Omit<DeckProject, 'refImages' | 'contextFiles' | 'brandKit' | 'slides'>;
+    brandKit?: StoredBrandKit;
+    refImages: StoredFile[];
+    contextFiles: StoredFile[];
+    /** Content type of every image in the archive, by path. */
+    imageTypes: Record<string, string>;
+}
+
+type Json = Record<string, unknown>;
+
+/**
+ * Upgrades an archive's manifest and slides from schema version N (the key) to N + 1.
+ * Each step only has to know about the version right before it.
+ */
+const MIGRATIONS: Record<number, (archive: { manifest: Json; slides: Json[] }) => { manifest: Json; slides: Json[] }> = {};
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'image/svg+xml': 'svg',
+    'image/bmp': 'bmp',
+};
+
+const parseDataUrl = (dataUrl: string) => {
+    const comma = dataUrl.indexOf(',');
+    if (!dataUrl.startsWith('data:') || comma === -1) throw new DeckArchiveError('Slide image is not a data URL');
+    const header = dataUrl.slice(5, comma);
+    const data = dataUrl.slice(comma + 1);
+    const base64 = header.endsWith(';base64');
+    // SVGs are often URL-encoded text rather than base64
+    return { type: header.split(';')[0] || 'application/octet-stream', base64, data: base64 ? data : decodeURIComponent(data) };
+};
+
+/**
+ * Collects the files of an archive while its JSON is being built, and remembers
+ * each image's type so it can be turned back into a data URL.
+ */
+class ArchiveWriter {
+    readonly zip = new JSZip();
+    readonly types: Record<string, string> = {};
+
+    image(dataUrl: string, basePath: string): string {
+        const { type, base64, data } = parseDataUrl(dataUrl);
+        const path = `${basePath}.${EXTENSIONS[type] ?? 'bin'}`;
+        this.zip.file(path, data, { base64 });
+        this.types[path] = type;
+        return path;
+    }
+
+    files(files: File[], folder: string): StoredFile[] {
+        return files.map((file, i) => {
+            const path = `${folder}/${i + 1}-${file.name}`;
+            this.zip.file(path, file);
+            return { path, name: file.name, type: file.type, lastModified: file.lastModified };
+        });
+    }
+}
+
+const storeSlide = (writer: ArchiveWriter, slide: Slide): StoredSlide => {
+    const { versions, background, media, ...rest } = slide;
+    // The slide's own imageData is always its active version's, so it isn't stored twice
+    delete rest.imageData;
+    const folder = `slides/${slide.id}`;
+    return {
+        ...rest,
+        versions: versions.map(({ imageData, ...version }) => ({ ...version, path: writer.image(imageData, `${folder}/${version.id}`) })),
+        background: background && { versionId: background.versionId, path: writer.image(background.imageData, `${folder}/background`) },
+        media: media?.map(({ imageData, ...item }, i) => ({ ...item, path: writer.image(imageData, `${folder}/media/${i + 1}`) })),
+    };
+};
+
+/**
+ * Packs a project into a .prodeck file.
+ */
+export const exportDeckArchive = async (project: DeckProject): Promise<Blob> => {
+    const writer = new ArchiveWriter();
+    const { refImages, contextFiles, brandKit, slides, ...settings } = project;
+
+    const storedSlides = slides.map(slide => storeSlide(writer, slide));
+    const manifest: Manifest = {
+        format: FORMAT,
+        schemaVersion: SCHEMA_VERSION,
+        exportedAt: Date.now(),
+        project: settings,
+        brandKit: brandKit && {
+            ...brandKit,
+            logo: brandKit.logo && { path: writer.image(brandKit.logo.imageData, 'brand/logo'), placement: brandKit.logo.placement },
+        },
+        refImages: writer.files(refImages, 'references'),
+        contextFiles: writer.files(contextFiles, 'context'),
+        imageTypes: writer.types,
+    };
+
+    writer.zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+    writer.zip.file('slides.json', JSON.stringify(storedSlides, null, 2));
+    return writer.zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+const readJson = async (zip: JSZip, path: string): Promise<unknown> => {
+    const file = zip.file(path);
+    if (!file) throw new DeckArchiveError(`The deck file is missing ${path}`);
+    try {
+        return JSON.parse(await file.async('text'));
+    } catch {
+        throw new DeckArchiveError(`The deck file's ${path} is damaged`);
+    }
+};
+
+/**
+ * Brings an archive written by an older version up to the current schema.
+ */
+const migrate = (manifest: Json, slides: Json[]) => {
+    let archive = { manifest, slides };
+    let version = Number(manifest.schemaVersion);
+    if (!Number.isInteger(version) || version < 1) throw new DeckArchiveError('The deck file has no schema version');
+    if (version > SCHEMA_VERSION) {
+        throw new DeckArchiveError('This deck was saved by a newer version of ProDeck. Update to open it.');
+    }
+    while (version < SCHEMA_VERSION) {
+        const step = MIGRATIONS[version];
+        if (!step) throw new DeckArchiveError(`No migration from deck schema version ${version}`);
+        archive = step(archive);
+        version++;
+    }
+    return archive as unknown as { manifest: Manifest; slides: StoredSlide[] };
+};
+
+/**
+ * Unpacks a .prodeck file into a project. The project gets a new id, so opening a
+ * deck never overwrites one already saved in this browser.
+ */
+export const importDeckArchive = async (file: Blob): Promise<DeckProject> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new DeckArchiveError('Not a .prodeck file');
+    }
+
+    const rawManifest = await readJson(zip, 'manifest.json');
+    const rawSlides = await readJson(zip, 'slides.json');
+    if (typeof rawManifest !== 'object' || rawManifest === null || (rawManifest as Json).format !== FORMAT) {
+        throw new DeckArchiveError('Not a .prodeck file');
+    }
+    if (!Array.isArray(rawSlides)) throw new DeckArchiveError("The deck file's slides.json is damaged");
+    const { manifest, slides } = migrate(rawManifest as Json, rawSlides);
+
+    const image = async (path: string) => {
+        const entry = zip.file(path);
+        if (!entry) throw new DeckArchiveError(`The deck file is missing ${path}`);
+        return `data:${manifest.imageTypes[path] ?? 'image/png'};base64,${await entry.async('base64')}`;
+    };
+    const files = (stored: StoredFile[]) => Promise.all(stored.map(async ({ path, name, type, lastModified }) => {
+        const entry = zip.file(path);
+        if (!entry) throw new DeckArchiveError(`The deck file is missing ${path}`);
+        return new File([await entry.async('arraybuffer')], name, { type, lastModified });
+    }));
+
+    const restoredSlides = await Promise.all(slides.map(async ({ versions, background, media, ...slide }): Promise<Slide> => {
+        const restoredVersions = await Promise.all(versions.map(async ({ path, ...version }) => ({ ...version, imageData: await image(path) })));
+        return {
+            ...slide,
+            versions: restoredVersions,
+            imageData: restoredVersions.find(version => version.id === slide.activeVersionId)?.imageData,
+            background: background && { versionId: background.versionId, imageData: await image(background.path) },
+            media: media && await Promise.all(media.map(async ({ path, ...item }) => ({ ...item, imageData: await image(path) }))),
+        };
+    }));
+
+    const { logo, ...brandKit } = manifest.brandKit ?? {};
+    const now = Date.now();
+    return normalizeProject({
+        ...manifest.project,
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+        refImages: await files(manifest.refImages),
+        contextFiles: await files(manifest.contextFiles),
+        brandKit: manifest.brandKit && {
+            ...(brandKit as Omit<BrandKit, 'logo'>),
+            logo: logo && { imageData: await image(logo.path), placement: logo.placement },
+        },
+        slides: restoredSlides,
+    });
+};
@@ -0,0 +1,89 @@
+export type SlideErrorKind =
+    | 'timeout'
+    | 'rate_limit'
+    | 'safety'
+    | 'auth'
+    | 'no_image'
+    | 'server'
+    | 'network'
+    | 'unknown';
+
+/**
+ * Kinds worth retrying automatically: the same request may well succeed a moment later.
+ */
+const TRANSIENT_KINDS: SlideErrorKind[] = ['timeout', 'rate_limit', 'server', 'network'];
+
+export const ERROR_LABELS: Record<SlideErrorKind, string> = {
+    timeout: 'Timed out',
+    rate_limit: 'Rate limited',
+    safety: 'Blocked by safety filter',
+    auth: 'API key rejected',
+    no_image: 'No image returned',
+    server: 'Provider error',
+    network: 'Network error',
+    unknown: 'Generation failed',
+};
+
+/**
+ * A provider failure with a known cause, so the UI can explain it and the
+ * retry logic can tell transient failures from permanent ones.
+ */
+export class SlideGenerationError extends Error {
+    readonly kind: SlideErrorKind;
+    readonly retryAfterMs?: number;
+
+    constructor(kind: SlideErrorKind, message: string, retryAfterMs?: number) {
+        super(message);
+        this.name = 'SlideGenerationError';
+        this.kind = kind;
+        this.retryAfterMs = retryAfterMs;
+    }
+
+    get retryable(): boolean {
+        return TRANSIENT_KINDS.includes(this.kind);
+    }
+}
+
+export const kindFromStatus = (status: number): SlideErrorKind => {
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 429) return 'rate_limit';
+    if (status === 408) return 'timeout';
+    if (status >= 500) return 'server';
+    return 'unknown';
+};
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Maps any error thrown by a provider (SDK errors, fetch failures, our own errors)
+ * onto a SlideGenerationError.
+ */
+export const classifyError = (error: unknown): SlideGenerationError => {
+    if (error instanceof SlideGenerationError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const status = (error as { status?: unknown } | null)?.status;
+
+    if (typeof status === 'number') {
+        return new SlideGenerationError(kindFromStatus(status), message);
+    }
+    // fetch() rejects with a bare TypeError when the request never got a response
+    if (error instanceof TypeError) {
+        return new SlideGenerationError('network', message);
+    }
+    if (/timed out/i.test(message)) return new SlideGenerationError('timeout', message);
+    if (/safety|blocked|prohibited|moderation/i.test(message)) return new SlideGenerationError('safety', message);
+    if (/\b429\b|quota|rate limit/i.test(message)) return new SlideGenerationError('rate_limit', message);
+    if (/api key|\b40[13]\b|unauthori[sz]ed|permission/i.test(message)) return new SlideGenerationError('auth', message);
+
+    return new SlideGenerationError('unknown', message);
+};
@@ -0,0 +1,160 @@
+import { escapeXml } from '../../utils/dataVisual';
+import { drawSlide, renderedSlides } from './render';
+import type { DeckExporter, ExportDeck } from './types';
+
+const JPEG_QUALITY = 0.9;
+
+const STYLES = `
+* { box-sizing: border-box; }
+html, body { margin: 0; height: 100%; background: #000; color: #fff; font-family: system-ui, sans-serif; overflow: hidden; }
+#stage { position: fixed; inset: 0; display: flex; align-items: center; justify-content: center; cursor: pointer; }
+#stage img { max-width: 100vw; max-height: 100vh; aspect-ratio: 16 / 9; object-fit: contain; }
+#counter { position: fixed; right: 16px; bottom: 12px; font-size: 12px; opacity: 0.4; }
+#help { position: fixed; left: 50%; bottom: 24px; transform: translateX(-50%); font-size: 13px; background: rgba(255,255,255,0.12);
+    padding: 8px 16px; border-radius: 999px; transition: opacity 0.6s; }
+`;
+
+const PRESENTER_STYLES = `
+body { margin: 0; padding: 24px; background: #111; color: #eee; font-family: system-ui, sans-serif;
+    display: grid; grid-template-columns: 3fr 2fr; grid-template-rows: auto 1fr; gap: 20px; height: 100vh; box-sizing: border-box; }
+img { width: 100%; border-radius: 6px; background: #000; }
+#current { grid-row: span 2; }
+#next img { opacity: 0.8; }
+.label { font-size: 11px; text-transform: uppercase; letter-spacing: 0.08em; color: #888; margin-bottom: 6px; }
+#notes { font-size: 18px; line-height: 1.5; white-space: pre-wrap; overflow-y: auto; }
+#bar { display: flex; justify-content: space-between; align-items: center; font-variant-numeric: tabular-nums; }
+#timer { font-size: 28px; }
+button { background: #333; color: #eee; border: 0; border-radius: 6px; padding: 6px 12px; cursor: pointer; }
+`;
+
+// Plain script, no modules or template strings: it runs from a local file in any browser
+const SCRIPT = `
+(function () {
+    var deck = JSON.parse(document.getElementById('deck').textContent);
+    var slides = deck.slides;
+    var index = Math.min(slides.length - 1, Math.max(0, (parseInt(location.hash.slice(1), 10) || 1) - 1));
+    var image = document.getElementById('slide');
+    var counter = document.getElementById('counter');
+    var presenter = null;
+    var startedAt = 0;
+
+    function show(next) {
+        index = Math.min(slides.length - 1, Math.max(0, next));
+        image.src = slides[index].src;
+        image.alt = slides[index].title;
+        counter.textContent = (index + 1) + ' / ' + slides.length;
+        history.replaceState(null, '', '#' + (index + 1));
+        updatePresenter();
+    }
+
+    function onKey(e) {
+        if (['ArrowRight', 'ArrowDown', 'PageDown', ' ', 'Enter'].indexOf(e.key) !== -1) show(index + 1);
+        else if (['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace'].indexOf(e.key) !== -1) show(index - 1);
+        else if (e.key === 'Home') show(0);
+        else if (e.key === 'End') show(slides.length - 1);
+        else if (e.key === 'f' || e.key === 'F') toggleFullscreen();
+        else if (e.key === 'p' || e.key === 'P') openPresenter();
+        else return;
+        e.preventDefault();
+    }
+
+    function toggleFullscreen() {
+        if (document.fullscreenElement) document.exitFullscreen();
+        else document.documentElement.requestFullscreen();
+    }
+
+    function formatTime(ms) {
+        var seconds = Math.floor(ms / 1000);
+        var minutes = Math.floor(seconds / 60);
+        return minutes + ':' + String(seconds % 60).padStart(2, '0');
+    }
+
+    function openPresenter() {
+        if (presenter && !presenter.closed) { presenter.focus(); return; }
+        presenter = window.open('', 'prodeck-presenter', 'width=1100,height=700');
+        if (!presenter) { alert('Allow pop-ups to open the presenter view.'); return; }
+        presenter.document.write(deck.presenter);
+        presenter.document.close();
+        presenter.document.addEventListener('keydown', onKey);
+        presenter.document.getElementById('reset').onclick = function () { startedAt = Date.now(); };
+        startedAt = Date.now();
+        var timer = setInterval(function () {
+            if (!presenter || presenter.closed) { clearInterval(timer); return; }
+            presenter.document.getElementById('timer').textContent = formatTime(Date.now() - startedAt);
+        }, 500);
+        updatePresenter();
+    }
+
+    function updatePresenter() {
+        if (!presenter || presenter.closed) return;
+        var doc = presenter.document;
+        var next = slides[index + 1];
+        doc.getElementById('current-image').src = slides[index].src;
+        doc.getElementById('next-image').src = next ? next.src : '';
+        doc.getElementById('next-image').style.visibility = next ? 'visible' : 'hidden';
+        doc.getElementById('notes').textContent = slides[index].notes || 'No notes for this slide.';
+        doc.getElementById('position').textContent = 'Slide ' + (index + 1) + ' of ' + slides.length;
+    }
+
+    document.addEventListener('keydown', onKey);
+    document.getElementById('stage').addEventListener('click', function (e) {
+        show(e.clientX < window.innerWidth / 3 ? index - 1 : index + 1);
+    });
+    window.addEventListener('beforeunload', function () { if (presenter) presenter.close(); });
+    setTimeout(function () { document.getElementById('help').style.opacity = '0'; }, 4000);
+    show(index);
+})();
+`;
+
+const presenterTemplate = (title: string) => `<!doctype html>
+<html><head><meta charset="utf-8"><title>Presenter · ${escapeXml(title)}</title><style>${PRESENTER_STYLES}</style></head>
+<body>
+<div id="current"><div class="label">Current</div><img id="current-image" alt=""><div id="bar"><span id="position"></span><span><span id="timer">0:00</span> <button id="reset">Reset</button></span></div></div>
+<div id="next"><div class="label">Next</div><img id="next-image" alt=""></div>
+<div><div class="label">Notes</div><div id="notes"></div></div>
+</body></html>`;
+
+// JSON inside a script element must not contain a closing tag
+const scriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+/**
+ * A single HTML file that plays the deck: arrow keys, space or clicks to move, F for
+ * fullscreen, and P to open a presenter view with the notes, the next slide and a timer.
+ * The slide images are embedded, so the file works offline and can be mailed around.
+ */
+const exportHtml = async (deck: ExportDeck): Promise<Blob> => {
+    const slides = [];
+    for (const slide of renderedSlides(deck)) {
+        slides.push({
+            src: (await drawSlide(slide, deck)).toDataURL('image/jpeg', JPEG_QUALITY),
+            title: slide.content?.title ?? slide.title,
+            notes: slide.speakerNotes?.trim() ?? '',
+        });
+    }
+
+    const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(deck.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div id="stage"><img id="slide" alt=""></div>
+<div id="counter"></div>
+<div id="help">← → to move · F fullscreen · P presenter view</div>
+<script type="application/json" id="deck">${scriptJson({ title: deck.title, slides, presenter: presenterTemplate(deck.title) })}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>`;
+    return new Blob([html], { type: 'text/html' });
+};
+
+export const htmlExporter: DeckExporter = {
+    id: 'html',
+    label: 'HTML slideshow',
+    description: 'One self-contained file with keyboard navigation and a presenter view',
+    extension: 'html',
+    export: exportHtml,
+};
@@ -0,0 +1,58 @@
+import JSZip from 'jszip';
+import { canvasToBlob, drawSlide, renderedSlides, slideFileName } from './render';
+import type { DeckExporter, ExportDeck } from './types';
+
+const FORMATS = {
+    png: { type: 'image/png', quality: undefined },
+    webp: { type: 'image/webp', quality: 0.95 },
+};
+
+/**
+ * Every slide as a full-resolution image, with a manifest.json listing the files
+ * in deck order with their titles and speaker notes.
+ */
+const exportImages = async (deck: ExportDeck, format: keyof typeof FORMATS): Promise<Blob> => {
+    const { type, quality } = FORMATS[format];
+    const zip = new JSZip();
+    const slides = renderedSlides(deck);
+    const manifest = [];
+
+    for (const slide of slides) {
+        const canvas = await drawSlide(slide, deck);
+        const blob = await canvasToBlob(canvas, type, quality);
+        // Browsers without a WebP encoder hand back a PNG instead
+        const file = slideFileName(slide.slideNumber, slides.length, blob.type === type ? format : 'png');
+        zip.file(file, blob);
+        manifest.push({
+            slideNumber: slide.slideNumber,
+            file,
+            title: slide.content?.title ?? slide.title,
+            width: canvas.width,
+            height: canvas.height,
+            speakerNotes: slide.speakerNotes,
+        });
+    }
+
+    zip.file('manifest.json', JSON.stringify({
+        title: deck.title,
+        exportedAt: new Date().toISOString(),
+        slides: manifest,
+    }, null, 2));
+    return zip.generateAsync({ type: 'blob' });
+};
+
+export const pngExporter: DeckExporter = {
+    id: 'png',
+    label: 'PNG images',
+    description: 'A zip of lossless slide images, with a manifest',
+    extension: 'zip',
+    export: deck => exportImages(deck, 'png'),
+};
+
+export const webpExporter: DeckExporter = {
+    id: 'webp',
+    label: 'WebP images',
+    description: 'A zip of compact slide images, with a manifest',
+    extension: 'zip',
+    export: deck => exportImages(deck, 'webp'),
+};
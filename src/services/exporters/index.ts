@@ -0,0 +1,29 @@
+import { htmlExporter } from './html';
+import { pngExporter, webpExporter } from './images';
+import { odpExporter } from './odp';
+import { pdfExporter, pdfNotesExporter } from './pdf';
+import { registerExporter } from './registry';
+
+export { getExporter, listExporters, registerExporter } from './registry';
+export type { DeckExporter, ExportDeck, ExportSlide } from './types';
+
+// Built-in formats, in menu order. PowerPoint export has its own buttons, as it has its own modes.
+registerExporter(pdfExporter);
+registerExporter(pdfNotesExporter);
+registerExporter(pngExporter);
+registerExporter(webpExporter);
+registerExporter(odpExporter);
+registerExporter(htmlExporter);
+
+/**
+ * Hands a generated file to the browser as a download.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Give the download a moment to start before the URL goes away
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
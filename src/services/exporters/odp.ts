@@ -0,0 +1,102 @@
+import JSZip from 'jszip';
+import { escapeXml } from '../../utils/dataVisual';
+import { canvasToBlob, drawSlide, renderedSlides, slideFileName } from './render';
+import type { DeckExporter, ExportDeck } from './types';
+
+const MIME_TYPE = 'application/vnd.oasis.opendocument.presentation';
+
+// 16:9, as LibreOffice Impress sizes widescreen slides
+const PAGE = { w: '28cm', h: '15.75cm' };
+
+const NAMESPACES = [
+    'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+    'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+    'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+    'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"',
+    'xmlns:presentation="urn:oasis:names:tc:opendocument:xmlns:presentation:1.0"',
+    'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+    'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+    'xmlns:xlink="http://www.w3.org/1999/xlink"',
+    'xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0"',
+].join(' ');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+
+const stylesXml = () => `${XML_HEADER}
+<office:document-styles ${NAMESPACES} office:version="1.2">
+<office:automatic-styles>
+<style:page-layout style:name="PM1">
+<style:page-layout-properties fo:margin-top="0cm" fo:margin-bottom="0cm" fo:margin-left="0cm" fo:margin-right="0cm" fo:page-width="${PAGE.w}" fo:page-height="${PAGE.h}" style:print-orientation="landscape"/>
+</style:page-layout>
+</office:automatic-styles>
+<office:master-styles>
+<style:master-page style:name="Default" style:page-layout-name="PM1"/>
+</office:master-styles>
+</office:document-styles>`;
+
+const notesXml = (notes?: string) => {
+    const paragraphs = (notes?.trim() ?? '').split('\n').map(line => `<text:p>${escapeXml(line)}</text:p>`).join('');
+    return `<presentation:notes><draw:frame presentation:class="notes" svg:x="2cm" svg:y="13cm" svg:width="17cm" svg:height="13cm"><draw:text-box>${paragraphs}</draw:text-box></draw:frame></presentation:notes>`;
+};
+
+const pageXml = (slideNumber: number, title: string, picture: string, notes?: string) =>
+    `<draw:page draw:name="Slide ${slideNumber}" draw:master-page-name="Default">`
+    + `<draw:frame svg:x="0cm" svg:y="0cm" svg:width="${PAGE.w}" svg:height="${PAGE.h}">`
+    + `<draw:image xlink:href="${picture}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/>`
+    + `<svg:title>${escapeXml(title)}</svg:title>`
+    + '</draw:frame>'
+    + notesXml(notes)
+    + '</draw:page>';
+
+const manifestXml = (pictures: string[]) => `${XML_HEADER}
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+<manifest:file-entry manifest:full-path="/" manifest:media-type="${MIME_TYPE}"/>
+<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+<manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>
+<manifest:file-entry manifest:full-path="meta.xml" manifest:media-type="text/xml"/>
+${pictures.map(path => `<manifest:file-entry manifest:full-path="${path}" manifest:media-type="image/png"/>`).join('\n')}
+</manifest:manifest>`;
+
+/**
+ * OpenDocument presentation (Impress, Keynote, and Google Slides' importer): one
+ * full-slide picture per page, with the speaker notes on its notes page.
+ */
+const exportOdp = async (deck: ExportDeck): Promise<Blob> => {
+    const zip = new JSZip();
+    // The mimetype must be the first entry, uncompressed, for readers to recognize the file
+    zip.file('mimetype', MIME_TYPE, { compression: 'STORE' });
+
+    const slides = renderedSlides(deck);
+    const pictures: string[] = [];
+    const pages: string[] = [];
+    for (const slide of slides) {
+        const picture = `Pictures/${slideFileName(slide.slideNumber, slides.length, 'png')}`;
+        zip.file(picture, await canvasToBlob(await drawSlide(slide, deck), 'image/png'));
+        pictures.push(picture);
+        pages.push(pageXml(slide.slideNumber, slide.content?.title ?? slide.title, picture, slide.speakerNotes));
+    }
+
+    zip.file('content.xml', `${XML_HEADER}
+<office:document-content ${NAMESPACES} office:version="1.2">
+<office:body><office:presentation>
+${pages.join('\n')}
+</office:presentation></office:body>
+</office:document-content>`);
+    zip.file('styles.xml', stylesXml());
+    zip.file('meta.xml', `${XML_HEADER}
+<office:document-meta ${NAMESPACES} office:version="1.2">
+<office:meta><dc:title>${escapeXml(deck.title)}</dc:title><meta:generator>ProDeck</meta:generator></office:meta>
+</office:document-meta>`);
+    zip.file('META-INF/manifest.xml', manifestXml(pictures));
+
+    return zip.generateAsync({ type: 'blob', mimeType: MIME_TYPE });
+};
+
+export const odpExporter: DeckExporter = {
+    id: 'odp',
+    label: 'OpenDocument (.odp)',
+    description: 'For Impress, Keynote or importing into Google Slides',
+    extension: 'odp',
+    export: exportOdp,
+};
@@ -0,0 +1,75 @@
+import { jsPDF } from 'jspdf';
+import { drawSlide, renderedSlides } from './render';
+import type { DeckExporter, ExportDeck } from './types';
+
+// A 16:9 page at 96 dpi, in points
+const SLIDE_PAGE = { w: 720, h: 405 };
+
+// Notes pages are A4 portrait: the slide on top, the notes under it
+const NOTES_PAGE = { w: 595.28, h: 841.89, margin: 48 };
+const NOTES_FONT_SIZE = 11;
+const NOTES_LINE_HEIGHT = 15;
+
+const JPEG_QUALITY = 0.92;
+
+const addNotesPage = (pdf: jsPDF, image: string, notes: string, slideNumber: number) => {
+    const { w, h, margin } = NOTES_PAGE;
+    const width = w - margin * 2;
+    const imageHeight = width * 9 / 16;
+    pdf.addPage([w, h], 'portrait');
+    pdf.addImage(image, 'JPEG', margin, margin, width, imageHeight);
+    pdf.setDrawColor(220);
+    pdf.rect(margin, margin, width, imageHeight);
+
+    pdf.setFontSize(NOTES_FONT_SIZE);
+    pdf.setTextColor(40);
+    let y = margin + imageHeight + 32;
+    // Long notes run on over as many pages as they need
+    for (const line of pdf.splitTextToSize(notes, width) as string[]) {
+        if (y > h - margin) {
+            pdf.addPage([w, h], 'portrait');
+            y = margin;
+        }
+        pdf.text(line, margin, y);
+        y += NOTES_LINE_HEIGHT;
+    }
+
+    pdf.setFontSize(9);
+    pdf.setTextColor(150);
+    pdf.text(String(slideNumber), w - margin, h - margin / 2, { align: 'right' });
+};
+
+const exportPdf = async (deck: ExportDeck, notes: boolean): Promise<Blob> => {
+    const pdf = new jsPDF({ unit: 'pt', format: [SLIDE_PAGE.w, SLIDE_PAGE.h], orientation: 'landscape' });
+    pdf.setProperties({ title: deck.title, creator: 'ProDeck' });
+    // jsPDF starts with a page; the loop adds every page itself
+    pdf.deletePage(1);
+
+    for (const slide of renderedSlides(deck)) {
+        const image = (await drawSlide(slide, deck)).toDataURL('image/jpeg', JPEG_QUALITY);
+        if (notes) {
+            addNotesPage(pdf, image, slide.speakerNotes?.trim() || '', slide.slideNumber);
+        } else {
+            pdf.addPage([SLIDE_PAGE.w, SLIDE_PAGE.h], 'landscape');
+            pdf.addImage(image, 'JPEG', 0, 0, SLIDE_PAGE.w, SLIDE_PAGE.h);
+        }
+    }
+
+    return pdf.output('blob');
+};
+
+export const pdfExporter: DeckExporter = {
+    id: 'pdf',
+    label: 'PDF',
+    description: 'One page per slide',
+    extension: 'pdf',
+    export: deck => exportPdf(deck, false),
+};
+
+export const pdfNotesExporter: DeckExporter = {
+    id: 'pdf-notes',
+    label: 'PDF with notes',
+    description: 'Notes pages: each slide with its speaker notes under it',
+    extension: 'pdf',
+    export: deck => exportPdf(deck, true),
+};
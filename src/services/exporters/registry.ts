@@ -0,0 +1,20 @@
+import type { DeckExporter } from './types';
+
+const exporters = new Map<string, DeckExporter>();
+
+/**
+ * Makes an export format available in the preview's export menu. Registering an existing id replaces it.
+ */
+export const registerExporter = (exporter: DeckExporter): void => {
+    exporters.set(exporter.id, exporter);
+};
+
+export const getExporter = (id: string): DeckExporter => {
+    const exporter = exporters.get(id);
+    if (!exporter) {
+        throw new Error(`Unknown export format "${id}". Registered: ${[...exporters.keys()].join(', ')}`);
+    }
+    return exporter;
+};
+
+export const listExporters = (): DeckExporter[] => [...exporters.values()];
@@ -0,0 +1,46 @@
+import { dataVisualSvg, svgDataUrl } from '../../utils/dataVisual';
+import { loadImage } from '../../utils/image';
+import type { ExportDeck, ExportSlide } from './types';
+
+// Slides are exported at least this wide, so small renders still print and project sharply
+const MIN_WIDTH = 1920;
+
+/**
+ * The slides that have an image, in deck order. Slides that were never rendered are left out,
+ * as in the PowerPoint export.
+ */
+export const renderedSlides = (deck: ExportDeck) => {
+    const slides = deck.slides.filter((slide): slide is ExportSlide & { imageData: string } => !!slide.imageData);
+    if (slides.length === 0) throw new Error('No rendered slides to export');
+    return slides;
+};
+
+/**
+ * Draws the slide as it looks in the preview: its image, with the chart or table on top.
+ */
+export const drawSlide = async (slide: ExportSlide & { imageData: string }, deck: ExportDeck): Promise<HTMLCanvasElement> => {
+    const img = await loadImage(slide.imageData);
+    const scale = Math.max(1, MIN_WIDTH / img.naturalWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    const svg = slide.content && dataVisualSvg(slide.content, deck.brandKit);
+    if (svg) ctx.drawImage(await loadImage(svgDataUrl(svg)), 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Could not encode slide as ${type}`)), type, quality);
+    });
+
+/**
+ * Zero-padded slide number for file names, so they sort in deck order.
+ */
+export const slideFileName = (slideNumber: number, total: number, extension: string) =>
+    `slide-${String(slideNumber).padStart(String(total).length, '0')}.${extension}`;
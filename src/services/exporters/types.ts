@@ -0,0 +1,26 @@
+import type { BrandKit, Slide } from '../../types/deck';
+
+export type ExportSlide = Pick<Slide, 'slideNumber' | 'title' | 'imageData' | 'content' | 'speakerNotes'>;
+
+/**
+ * What every export format is written from: the deck's slides as they are in the
+ * preview, with the brand kit for the charts and tables drawn over them.
+ */
+export interface ExportDeck {
+    title: string;
+    slides: ExportSlide[];
+    brandKit?: BrandKit;
+}
+
+/**
+ * A file format the finished deck can be saved as. Exporters run entirely in the
+ * browser and return the file; the caller decides what to do with it.
+ */
+export interface DeckExporter {
+    id: string;
+    label: string;
+    description: string;
+    /** File extension, without the dot. */
+    extension: string;
+    export(deck: ExportDeck): Promise<Blob>;
+}
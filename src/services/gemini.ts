@@ -1,94 +1,416 @@
-import { GoogleGenerativeAI, SchemaType, type Schema } from "@google/generative-ai";
+import { GoogleGenerativeAI, SchemaType, type GenerateContentResponse, type GenerateContentResult, type GenerationConfig, type GenerativeModel, type Schema } from "@google/generative-ai";
+import { proxyUrl, USE_API_PROXY } from "./apiProxy";
+import type { BrandKit } from "../types/deck";
+import { SlideGenerationError } from "./errors";
+import { BRAND_PROMPT, buildInsertPrompt, buildPlanPrompt, buildReplanPrompt, buildRestylePrompt, buildRevisePrompt } from "./planners/prompts";
+import type { PlannedSlide, SlideRevision } from "./planners/types";
+import { parsePlanJson, validatePlan, validateRestyle, validateRevisions } from "./planners/validation";
+import { SLIDE_REQUEST_TIMEOUT_MS, withAbortTimeout } from "./requestControl";
+import { csvContextText, isCsvFile } from "../utils/csv";
+import { SLIDE_LAYOUTS } from "../utils/layouts";
 
 const API_KEY = import.meta.env.VITE_GOOGLE_API_KEY || '';
 
-if (!API_KEY) {
+if (!API_KEY && !USE_API_PROXY) {
     console.warn("Missing VITE_GOOGLE_API_KEY. Please ensure it is set in your environment.");
 }
 
 const genAI = new GoogleGenerativeAI(API_KEY);
 
+// Through the proxy each kind of call gets its own endpoint, so the server can meter them separately
+const requestOptions = (action: 'plan' | 'generate' | 'edit') =>
+    USE_API_PROXY ? { baseUrl: proxyUrl(`/gemini/${action}`) } : undefined;
+
+export interface GeminiOptions {
+    plannerModel?: string;
+    imageModel?: string;
+    /** Gemini image size ('1K', '2K', '4K'); left to the model's default when unset. */
+    imageSize?: string;
+    timeoutMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<GeminiOptions, 'imageSize'>> & Pick<GeminiOptions, 'imageSize'> = {
+    plannerModel: import.meta.env.VITE_GEMINI_PLANNER_MODEL || "gemini-3-pro-preview",
+    imageModel: import.meta.env.VITE_GEMINI_IMAGE_MODEL || "gemini-3-pro-image-preview",
+    imageSize: import.meta.env.VITE_GEMINI_IMAGE_SIZE || undefined,
+    timeoutMs: Number(import.meta.env.VITE_GEMINI_TIMEOUT_MS) || SLIDE_REQUEST_TIMEOUT_MS,
+};
+
+// Finish reasons that mean the image was withheld by a filter rather than never produced
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// Rectangle in fractions of the slide, used to place text boxes in editable export
+const regionSchema: Schema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        x: { type: SchemaType.NUMBER },
+        y: { type: SchemaType.NUMBER },
+        w: { type: SchemaType.NUMBER },
+        h: { type: SchemaType.NUMBER },
+    },
+    required: ["x", "y", "w", "h"],
+};
+
+const filterSchema: Schema = {
+    type: SchemaType.OBJECT,
+    description: "Keep only the CSV rows where this column equals this value",
+    properties: {
+        column: { type: SchemaType.STRING },
+        equals: { type: SchemaType.STRING },
+    },
+    required: ["column", "equals"],
+};
+
+// Schema for one planned slide
+const slideSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        slideNumber: { type: SchemaType.NUMBER },
+        title: { type: SchemaType.STRING },
+        visualPrompt: {
+            type: SchemaType.STRING,
+            description: "A VERY DETAILED art direction for the slide: composition, background, imagery, colors, fonts and placement. The on-slide text goes in 'content', not here."
+        },
+        content: {
+            type: SchemaType.OBJECT,
+            description: "What is on the slide, field by field, in one of the library layouts.",
+            properties: {
+                layout: { type: SchemaType.STRING, format: "enum", enum: SLIDE_LAYOUTS },
+                title: { type: SchemaType.STRING, description: "The heading" },
+                subtitle: { type: SchemaType.STRING },
+                bullets: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                body: { type: SchemaType.STRING },
+                chart: {
+                    type: SchemaType.OBJECT,
+                    description: "The numbers the slide plots, taken from the Context Files",
+                    properties: {
+                        type: { type: SchemaType.STRING, format: "enum", enum: ["bar", "line", "pie"] },
+                        series: {
+                            type: SchemaType.ARRAY,
+                            items: {
+                                type: SchemaType.OBJECT,
+                                properties: {
+                                    name: { type: SchemaType.STRING },
+                                    labels: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                                    values: { type: SchemaType.ARRAY, items: { type: SchemaType.NUMBER } },
+                                },
+                                required: ["name", "labels", "values"],
+                            },
+                        },
+                        source: {
+                            type: SchemaType.OBJECT,
+                            description: "The CSV file and columns the chart is drawn from, when the data comes from a CSV",
+                            properties: {
+                                file: { type: SchemaType.STRING },
+                                labelColumn: { type: SchemaType.STRING },
+                                valueColumns: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                                filter: filterSchema,
+                            },
+                            required: ["file", "labelColumn", "valueColumns"],
+                        },
+                    },
+                    required: ["type", "series"],
+                },
+                table: {
+                    type: SchemaType.OBJECT,
+                    description: "Rows of data shown as a table, taken from the Context Files",
+                    properties: {
+                        columns: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                        rows: { type: SchemaType.ARRAY, items: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } } },
+                        source: {
+                            type: SchemaType.OBJECT,
+                            description: "The CSV file and columns the table is drawn from, when the data comes from a CSV",
+                            properties: {
+                                file: { type: SchemaType.STRING },
+                                columns: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                                filter: filterSchema,
+                            },
+                            required: ["file", "columns"],
+                        },
+                    },
+                    required: ["columns", "rows"],
+                },
+                metrics: {
+                    type: SchemaType.ARRAY,
+                    description: "Headline numbers on a kpi-grid slide",
+                    items: {
+                        type: SchemaType.OBJECT,
+                        properties: {
+                            value: { type: SchemaType.STRING, description: "e.g. 42%" },
+                            label: { type: SchemaType.STRING },
+                        },
+                        required: ["value", "label"],
+                    },
+                },
+                imageDescription: { type: SchemaType.STRING, description: "The photo or illustration on the slide, if any" },
+            },
+            required: ["layout", "title", "bullets"],
+        },
+        speakerNotes: {
+            type: SchemaType.STRING,
+            description: "What the presenter says while this slide is shown, in plain spoken sentences."
+        },
+    },
+    required: ["slideNumber", "title", "visualPrompt", "content", "speakerNotes"],
+} satisfies Schema;
+
 // Schema for the deck structure
 const deckSchema: Schema = {
     description: "List of slides for the presentation",
     type: SchemaType.ARRAY,
+    items: slideSchema,
+};
+
+// Schema for a deck-wide revision: the affected slides, each with how to apply the change
+const revisionSchema: Schema = {
+    description: "Revised slides, only those the instruction affects",
+    type: SchemaType.ARRAY,
     items: {
-        type: SchemaType.OBJECT,
+        ...slideSchema,
         properties: {
-            slideNumber: { type: SchemaType.NUMBER },
-            title: { type: SchemaType.STRING },
-            visualPrompt: {
+            ...slideSchema.properties,
+            action: {
                 type: SchemaType.STRING,
-                description: "A VERY DETAILED description of the slide's visual appearance, including layout, background, and specific text content to be rendered in the image. Mention colors, fonts, and placement."
+                format: "enum",
+                enum: ["edit", "regenerate"],
+                description: "edit: paint the change onto the current image; regenerate: draw the slide again",
+            },
+            editInstruction: { type: SchemaType.STRING, description: "For edit: what to change on the current image" },
+        },
+        required: [...slideSchema.required, "action"],
+    },
+};
+
+// Schema for reading a brand kit off the reference images
+const brandSchema: Schema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        palette: {
+            type: SchemaType.ARRAY,
+            description: "3-6 brand colors, most important first",
+            items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                    hex: { type: SchemaType.STRING, description: "#RRGGBB" },
+                    role: { type: SchemaType.STRING, description: "e.g. background, primary, accent, text" },
+                },
+                required: ["hex", "role"],
             },
         },
-        required: ["slideNumber", "title", "visualPrompt"],
+        headingFont: { type: SchemaType.STRING, description: "Closest widely available font family for headings" },
+        bodyFont: { type: SchemaType.STRING, description: "Closest widely available font family for body text" },
+        margin: { type: SchemaType.NUMBER, description: "Typical distance of content from the slide edges, as a fraction (0-1) of slide width" },
+        titlePlacement: { type: SchemaType.STRING, format: "enum", enum: ["top-left", "top-center", "middle-left", "center"] },
+        logo: {
+            type: SchemaType.OBJECT,
+            description: "The clearest appearance of the brand logo, if there is one",
+            properties: {
+                imageIndex: { type: SchemaType.NUMBER, description: "0-based index of the reference image it appears in" },
+                region: { ...regionSchema, description: "Tight box around the logo, as fractions (0-1) of that image's width/height" },
+                placement: { type: SchemaType.STRING, format: "enum", enum: ["top-left", "top-right", "bottom-left", "bottom-right"] },
+            },
+            required: ["imageIndex", "region", "placement"],
+        },
+        styleNotes: { type: SchemaType.STRING, description: "One or two sentences on imagery, shapes and mood" },
     },
+    required: ["palette", "headingFont", "bodyFont", "margin", "titlePlacement"],
+};
+
+// The SDK's GenerationConfig predates image output; the extra fields are sent through as they are
+type ImageGenerationConfig = GenerationConfig & {
+    responseModalities: string[];
+    imageConfig?: { imageSize: string };
 };
 
 export class GeminiService {
-    private plannerModel: any;
-    private imageModel: any;
+    private plannerModel: GenerativeModel;
+    private brandModel: GenerativeModel;
+    private revisionModel: GenerativeModel;
+    private imageModel: GenerativeModel;
+    private editModel: GenerativeModel;
+    private options: typeof DEFAULT_OPTIONS;
+
+    constructor(options: GeminiOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
 
-    constructor() {
         this.plannerModel = genAI.getGenerativeModel({
-            model: "gemini-3-pro-preview", // Planning model
+            model: this.options.plannerModel, // Planning model
             generationConfig: {
                 responseMimeType: "application/json",
                 responseSchema: deckSchema,
             },
-        });
+        }, requestOptions('plan'));
+
+        this.revisionModel = genAI.getGenerativeModel({
+            model: this.options.plannerModel,
+            generationConfig: {
+                responseMimeType: "application/json",
+                responseSchema: revisionSchema,
+            },
+        }, requestOptions('plan'));
+
+        this.brandModel = genAI.getGenerativeModel({
+            model: this.options.plannerModel,
+            generationConfig: {
+                responseMimeType: "application/json",
+                responseSchema: brandSchema,
+            },
+        }, requestOptions('plan'));
 
         this.imageModel = genAI.getGenerativeModel({
-            model: "gemini-3-pro-image-preview", // Image generation model
-        });
+            model: this.options.imageModel, // Image generation model
+        }, requestOptions('generate'));
+
+        // Same model as imageModel; kept separate only so edits reach the proxy's edit endpoint
+        this.editModel = genAI.getGenerativeModel({
+            model: this.options.imageModel,
+        }, requestOptions('edit'));
     }
 
     /**
      * Plans the deck structure based on user context, reference images, and context files (PDF/Text).
      */
-    async planDeck(context: string, referenceImages: File[], contextFiles: File[] = [], slideCount: number = 6): Promise<any[]> {
+    async planDeck(
+        context: string,
+        referenceImages: File[],
+        contextFiles: File[] = [],
+        slideCount: number = 6,
+        brandKit?: BrandKit
+    ): Promise<PlannedSlide[]> {
         try {
-            // Process Reference Images (Style)
-            const imageParts = await Promise.all(
-                referenceImages.map(async (file) => ({
-                    inlineData: {
-                        data: await this.fileToBase64(file),
-                        mimeType: file.type,
-                    },
-                }))
-            );
+            const { imageParts, contextParts } = await this.buildPlanningParts(referenceImages, contextFiles);
 
-            // Process Context Files (Content)
-            const contextParts = await Promise.all(
-                contextFiles.map(async (file) => await this.fileToGenerativePart(file))
-            );
+            const prompt = buildPlanPrompt(context, slideCount, brandKit);
+
+            const result = await this.plannerModel.generateContent([prompt, ...imageParts, ...contextParts]);
+            const response = await result.response;
+            return validatePlan(parsePlanJson(response.text()), slideCount);
+        } catch (error) {
+            console.error("Error planning deck:", error);
+            throw error;
+        }
+    }
 
-            const prompt = `
-        You are an expert Presentation Designer.
-        Plan a professional slide deck about: "${context}".
-        
-        INPUTS:
-        1. Reference Images: Use these for design style, colors, layout, and branding ONLY.
-        2. Context Files: Use these documents (PDFs, text) as the SOURCE TRUTH for the content, data, and details of the presentation.
-        
-        TASK:
-        Output a JSON list of EXACTLY ${slideCount} slides. 
-        For each slide, write a 'visualPrompt' that is extremely detailed. 
-        This 'visualPrompt' will be sent to an image generation model to create the FINAL SLIDE as a single image.
-        
-        The 'visualPrompt' MUST include:
-        1. The exact text to appear on the slide (Headings, bullets, body) derived from the Context Files where applicable.
-        2. The layout description (e.g., "Split screen", "Centered title").
-        3. Stylistic commonalities from the Reference Images (hex codes, logo placement).
-        4. Aspect ratio instruction: "Compose for 16:9".
-      `;
+    /**
+     * Re-plans one slide of an existing outline, returning `count` replacement slides
+     * (1 to rewrite it, 2+ to split it). The rest of the outline is given as context so
+     * the replacements keep the deck's narrative and style.
+     */
+    async replanSlides(
+        context: string,
+        referenceImages: File[],
+        contextFiles: File[],
+        outline: PlannedSlide[],
+        index: number,
+        count: number = 1,
+        guidance: string = '',
+        brandKit?: BrandKit
+    ): Promise<PlannedSlide[]> {
+        try {
+            const { imageParts, contextParts } = await this.buildPlanningParts(referenceImages, contextFiles);
+
+            const prompt = buildReplanPrompt(context, outline, index, count, guidance, brandKit);
 
             const result = await this.plannerModel.generateContent([prompt, ...imageParts, ...contextParts]);
             const response = await result.response;
+            return validatePlan(parsePlanJson(response.text()), count);
+        } catch (error) {
+            console.error("Error re-planning slide:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Plans one new slide from the author's prompt, to go before the outline's slide at
+     * `index`. Its neighbours are given as context so it fits between them.
+     */
+    async insertSlide(
+        context: string,
+        referenceImages: File[],
+        contextFiles: File[],
+        outline: PlannedSlide[],
+        index: number,
+        prompt: string,
+        brandKit?: BrandKit
+    ): Promise<PlannedSlide> {
+        try {
+            const { imageParts, contextParts } = await this.buildPlanningParts(referenceImages, contextFiles);
+
+            const insertPrompt = buildInsertPrompt(context, outline, index, prompt, brandKit);
+
+            const result = await this.plannerModel.generateContent([insertPrompt, ...imageParts, ...contextParts]);
+            const response = await result.response;
+            return validatePlan(parsePlanJson(response.text()), 1)[0];
+        } catch (error) {
+            console.error("Error planning new slide:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Interprets a deck-wide instruction into revisions of the slides it affects,
+     * each to be applied as an edit of the current image or a fresh render.
+     */
+    async reviseDeck(
+        context: string,
+        referenceImages: File[],
+        contextFiles: File[],
+        outline: PlannedSlide[],
+        instruction: string,
+        brandKit?: BrandKit
+    ): Promise<SlideRevision[]> {
+        try {
+            const { imageParts, contextParts } = await this.buildPlanningParts(referenceImages, contextFiles);
+
+            const prompt = buildRevisePrompt(context, outline, instruction, brandKit);
+
+            const result = await this.revisionModel.generateContent([prompt, ...imageParts, ...contextParts]);
+            const response = await result.response;
+            return validateRevisions(parsePlanJson(response.text()), outline);
+        } catch (error) {
+            console.error("Error revising deck:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Re-plans an imported deck slide for slide in the style of the reference images,
+     * keeping its text, structure and order.
+     */
+    async restyleDeck(
+        context: string,
+        referenceImages: File[],
+        contextFiles: File[],
+        outline: PlannedSlide[],
+        brandKit?: BrandKit
+    ): Promise<PlannedSlide[]> {
+        try {
+            const { imageParts, contextParts } = await this.buildPlanningParts(referenceImages, contextFiles);
+
+            const prompt = buildRestylePrompt(context, outline, brandKit);
+
+            const result = await this.plannerModel.generateContent([prompt, ...imageParts, ...contextParts]);
+            const response = await result.response;
+            return validateRestyle(parsePlanJson(response.text()), outline);
+        } catch (error) {
+            console.error("Error restyling deck:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Reads the brand kit (palette, fonts, logo position, margins, title placement)
+     * off the reference images. Returns the raw JSON; callers validate it.
+     */
+    async analyzeBrand(referenceImages: File[]): Promise<unknown> {
+        try {
+            const { imageParts } = await this.buildPlanningParts(referenceImages, []);
+
+            const result = await this.brandModel.generateContent([BRAND_PROMPT, ...imageParts]);
+            const response = await result.response;
             return JSON.parse(response.text());
         } catch (error) {
-            console.error("Error planning deck:", error);
+            console.error("Error analyzing brand:", error);
             throw error;
         }
     }
@@ -96,7 +418,7 @@ export class GeminiService {
     /**
      * Generates a single slide image based on the visual prompt and references.
      */
-    async generateSlide(visualPrompt: string, referenceImages: File[]): Promise<string> {
+    async generateSlide(visualPrompt: string, referenceImages: File[], signal?: AbortSignal): Promise<string> {
         try {
             const imageParts = await Promise.all(
                 referenceImages.map(async (file) => ({
@@ -115,36 +437,16 @@ export class GeminiService {
 
             const finalPrompt = `${visualPrompt} \n\nEnsure the generated image has a 16:9 aspect ratio.`;
 
-            // Create a timeout promise
-            const timeoutPromise = new Promise((_, reject) =>
-                setTimeout(() => reject(new Error("Request timed out")), 45000)
-            );
-
-            const generationPromise = this.imageModel.generateContent({
+            const result: GenerateContentResult = await withAbortTimeout(requestSignal => this.imageModel.generateContent({
                 contents: [
                     { role: 'user', parts: [{ text: finalPrompt }, ...imageParts] }
                 ],
-                generationConfig: {
-                    responseModalities: ["IMAGE"],
-                }
-            });
-
-            const result: any = await Promise.race([generationPromise, timeoutPromise]);
+                generationConfig: this.imageGenerationConfig(),
+            }, { signal: requestSignal }), signal, this.options.timeoutMs);
 
             const response = await result.response;
 
-            // Extract image data
-            // Check for inlineData in parts
-            const parts = response.candidates?.[0]?.content?.parts;
-            if (parts) {
-                for (const part of parts) {
-                    if (part.inlineData) {
-                        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                    }
-                }
-            }
-
-            throw new Error("No image generated");
+            return this.extractImage(response, "No image generated");
 
         } catch (error: any) {
             console.error("Error generating slide:", error);
@@ -159,7 +461,7 @@ export class GeminiService {
     /**
      * Edits a slide image based on user instruction.
      */
-    async editSlide(currentImage: string, instruction: string): Promise<string> {
+    async editSlide(currentImage: string, instruction: string, signal?: AbortSignal): Promise<string> {
         try {
             // Remove data:image/xxx;base64, prefix if present
             const base64Data = currentImage.split(',')[1] || currentImage;
@@ -175,33 +477,16 @@ export class GeminiService {
             Maintain the exact same aspect ratio (16:9) and overall style. 
             Do not change parts of the image unrelated to the instruction.`;
 
-            const timeoutPromise = new Promise((_, reject) =>
-                setTimeout(() => reject(new Error("Request timed out")), 45000)
-            );
-
-            const generationPromise = this.imageModel.generateContent({
+            const result: GenerateContentResult = await withAbortTimeout(requestSignal => this.editModel.generateContent({
                 contents: [
                     { role: 'user', parts: [{ text: prompt }, imagePart] }
                 ],
-                generationConfig: {
-                    responseModalities: ["IMAGE"],
-                }
-            });
-
-            const result: any = await Promise.race([generationPromise, timeoutPromise]);
+                generationConfig: this.imageGenerationConfig(),
+            }, { signal: requestSignal }), signal, this.options.timeoutMs);
 
             const response = await result.response;
 
-            const parts = response.candidates?.[0]?.content?.parts;
-            if (parts) {
-                for (const part of parts) {
-                    if (part.inlineData) {
-                        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                    }
-                }
-            }
-
-            throw new Error("No image generated from edit");
+            return this.extractImage(response, "No image generated from edit");
 
         } catch (error: any) {
             console.error("Error editing slide:", error);
@@ -212,6 +497,56 @@ export class GeminiService {
         }
     }
 
+    private imageGenerationConfig(): ImageGenerationConfig {
+        return {
+            responseModalities: ["IMAGE"],
+            ...(this.options.imageSize ? { imageConfig: { imageSize: this.options.imageSize } } : {}),
+        };
+    }
+
+    /**
+     * Pulls the first inline image out of a response. When there is none, tells a
+     * safety block apart from the model simply not returning an image.
+     */
+    private extractImage(response: GenerateContentResponse, emptyMessage: string): string {
+        // Check for inlineData in parts
+        const parts = response.candidates?.[0]?.content?.parts;
+        if (parts) {
+            for (const part of parts) {
+                if (part.inlineData) {
+                    return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+                }
+            }
+        }
+
+        const blockReason = response.promptFeedback?.blockReason;
+        const finishReason = response.candidates?.[0]?.finishReason;
+        if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(String(finishReason)))) {
+            throw new SlideGenerationError('safety', `Blocked by Gemini safety filters (${blockReason || finishReason})`);
+        }
+
+        throw new SlideGenerationError('no_image', emptyMessage);
+    }
+
+    private async buildPlanningParts(referenceImages: File[], contextFiles: File[]) {
+        // Process Reference Images (Style)
+        const imageParts = await Promise.all(
+            referenceImages.map(async (file) => ({
+                inlineData: {
+                    data: await this.fileToBase64(file),
+                    mimeType: file.type,
+                },
+            }))
+        );
+
+        // Process Context Files (Content)
+        const contextParts = await Promise.all(
+            contextFiles.map(async (file) => await this.fileToGenerativePart(file))
+        );
+
+        return { imageParts, contextParts };
+    }
+
     private fileToBase64(file: File): Promise<string> {
         return new Promise((resolve, reject) => {
             const reader = new FileReader();
@@ -227,8 +562,11 @@ export class GeminiService {
     }
 
     private async fileToGenerativePart(file: File): Promise<any> {
-        // Handle Text Files (txt, md, csv, html)
-        if (file.type.startsWith('text/') || file.name.endsWith('.md') || file.name.endsWith('.csv')) {
+        if (isCsvFile(file)) {
+            return { text: csvContextText(file.name, await file.text()) };
+        }
+        // Handle Text Files (txt, md, html)
+        if (file.type.startsWith('text/') || file.name.endsWith('.md')) {
             const text = await file.text();
             return {
                 text: `[FILE: ${file.name}]\n${text}\n[END FILE]`
@@ -0,0 +1,201 @@
+import type { ImageModel } from './imageService';
+import { RequestCancelledError } from './requestControl';
+
+export interface ProviderLimits {
+    concurrency: number; // slides rendered in parallel
+    requestsPerMinute: number; // starts allowed in any rolling 60s window
+}
+
+// Used for a provider with no configured limits: cautious, one at a time
+const FALLBACK_LIMITS: ProviderLimits = { concurrency: 1, requestsPerMinute: 5 };
+
+const RATE_WINDOW_MS = 60000;
+
+export interface QueueProgress {
+    total: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    running: number;
+    etaMs: number | null; // null until the first task finishes
+}
+
+export interface GenerationTask<T> {
+    id: string;
+    /** Tasks sharing a group (e.g. the variants of one slide) are checked and cancelled together by it. */
+    group?: string;
+    provider: ImageModel;
+    run: (signal: AbortSignal) => Promise<T>;
+}
+
+interface QueueEntry {
+    task: GenerationTask<unknown>;
+    controller: AbortController;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+}
+
+type ProgressListener = (progress: QueueProgress) => void;
+
+const matches = (entry: QueueEntry, id: string) => entry.task.id === id || entry.task.group === id;
+
+/**
+ * Runs generation tasks with a per-provider worker pool and rate limit.
+ * Each task gets its own AbortSignal, so cancelling a task (or the whole run)
+ * aborts the in-flight request instead of leaving it to finish unobserved.
+ */
+export class GenerationQueue {
+    private pending: QueueEntry[] = [];
+    private running = new Map<string, QueueEntry>();
+    private startTimes: Partial<Record<ImageModel, number[]>> = {};
+    private durations: number[] = [];
+    private counts = { total: 0, completed: 0, failed: 0, cancelled: 0 };
+    private listeners = new Set<ProgressListener>();
+    private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+    private limits: Record<ImageModel, ProviderLimits>;
+
+    constructor(limits: Record<ImageModel, ProviderLimits> = {}) {
+        this.limits = limits;
+    }
+
+    setLimits(limits: Record<ImageModel, ProviderLimits>): void {
+        this.limits = limits;
+        this.pump();
+    }
+
+    /**
+     * Starts a new progress count (e.g. for a new render run) from whatever is still queued.
+     * Past durations are kept since they still inform the ETA.
+     */
+    resetProgress(): void {
+        this.counts = { total: this.pending.length + this.running.size, completed: 0, failed: 0, cancelled: 0 };
+        this.emit();
+    }
+
+    /** Whether a task with this id or group is waiting or running. */
+    isBusy(id: string): boolean {
+        return [...this.pending, ...this.running.values()].some(entry => matches(entry, id));
+    }
+
+    /**
+     * Queues a task. Rejects with RequestCancelledError if it is cancelled,
+     * whether it was still waiting or already running.
+     */
+    add<T>(task: GenerationTask<T>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this.pending.push({
+                task,
+                controller: new AbortController(),
+                resolve: resolve as (value: unknown) => void,
+                reject,
+            });
+            this.counts.total++;
+            this.emit();
+            this.pump();
+        });
+    }
+
+    /** Cancels the task with this id, or every task in this group. */
+    cancel(id: string): void {
+        const waiting = this.pending.filter(entry => matches(entry, id));
+        if (waiting.length > 0) {
+            this.pending = this.pending.filter(entry => !waiting.includes(entry));
+            this.counts.cancelled += waiting.length;
+            waiting.forEach(entry => entry.reject(new RequestCancelledError()));
+            this.emit();
+        }
+        // Running tasks settle through their own promise once the request aborts
+        this.running.forEach(entry => {
+            if (matches(entry, id)) entry.controller.abort();
+        });
+    }
+
+    cancelAll(): void {
+        [...this.pending].forEach(entry => this.cancel(entry.task.id));
+        [...this.running.keys()].forEach(id => this.cancel(id));
+    }
+
+    subscribe(listener: ProgressListener): () => void {
+        this.listeners.add(listener);
+        listener(this.getProgress());
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    getProgress(): QueueProgress {
+        const remaining = this.pending.length + this.running.size;
+        let etaMs: number | null = null;
+        if (this.durations.length > 0) {
+            const average = this.durations.reduce((sum, d) => sum + d, 0) / this.durations.length;
+            const providers = new Set([...this.pending, ...this.running.values()].map(e => e.task.provider));
+            const parallelism = Math.max(1, [...providers].reduce((sum, p) => sum + this.limitsFor(p).concurrency, 0));
+            etaMs = remaining === 0 ? 0 : Math.ceil(remaining / parallelism) * average;
+        }
+        return { ...this.counts, running: this.running.size, etaMs };
+    }
+
+    private limitsFor(provider: ImageModel): ProviderLimits {
+        return this.limits[provider] ?? FALLBACK_LIMITS;
+    }
+
+    private emit() {
+        const progress = this.getProgress();
+        this.listeners.forEach(listener => listener(progress));
+    }
+
+    /**
+     * Starts every pending task its provider has room for, and schedules a
+     * wake-up when the only thing holding tasks back is the rate limit.
+     */
+    private pump() {
+        const now = Date.now();
+        let nextSlotAt = Infinity;
+
+        for (const entry of [...this.pending]) {
+            const { provider } = entry.task;
+            const limits = this.limitsFor(provider);
+            const runningForProvider = [...this.running.values()].filter(e => e.task.provider === provider).length;
+            if (runningForProvider >= limits.concurrency) continue;
+
+            const recentStarts = (this.startTimes[provider] ?? []).filter(t => now - t < RATE_WINDOW_MS);
+            this.startTimes[provider] = recentStarts;
+            if (recentStarts.length >= limits.requestsPerMinute) {
+                nextSlotAt = Math.min(nextSlotAt, recentStarts[0] + RATE_WINDOW_MS);
+                continue;
+            }
+
+            recentStarts.push(now);
+            this.pending = this.pending.filter(e => e !== entry);
+            this.start(entry);
+        }
+
+        if (this.wakeTimer) clearTimeout(this.wakeTimer);
+        this.wakeTimer = nextSlotAt === Infinity ? null : setTimeout(() => this.pump(), nextSlotAt - now);
+    }
+
+    private async start(entry: QueueEntry) {
+        this.running.set(entry.task.id, entry);
+        this.emit();
+        const startedAt = Date.now();
+
+        try {
+            const result = await entry.task.run(entry.controller.signal);
+            this.durations.push(Date.now() - startedAt);
+            this.counts.completed++;
+            entry.resolve(result);
+        } catch (error) {
+            if (entry.controller.signal.aborted || error instanceof RequestCancelledError) {
+                this.counts.cancelled++;
+                entry.reject(error instanceof RequestCancelledError ? error : new RequestCancelledError());
+            } else {
+                this.counts.failed++;
+                entry.reject(error);
+            }
+        } finally {
+            this.running.delete(entry.task.id);
+            this.emit();
+            this.pump();
+        }
+    }
+}
@@ -1,38 +1,95 @@
-import { geminiService } from './gemini';
-import { openAIService } from './openai';
+import type { BrandKit, SlideLayout } from '../types/deck';
+import { describeBrandKit } from '../utils/brandKit';
+import { overlayLogo } from '../utils/image';
+import { describeLayout, layoutWireframe } from '../utils/layouts';
+import { compositeMasked, describeEditArea, type EditMask } from '../utils/mask';
+import { DEFAULT_IMAGE_PROVIDER, getImageProvider, type ImageProvider } from './providers';
 
-export type ImageModel = 'gemini' | 'openai';
+/**
+ * Id of a registered image provider ('gemini', 'openai', 'local', or any custom one).
+ */
+export type ImageModel = string;
+
+const TEXT_REMOVAL_INSTRUCTION = `Remove ALL text from this slide: titles, headings, bullet points, captions, labels and numbers.
+Keep the background, shapes, illustrations, photos and logos exactly as they are,
+and fill the areas where text was with the surrounding background so nothing looks erased.`;
+
+const fitPrompt = (prompt: string, provider: ImageProvider, reserved: number = 0) => {
+    const maxLength = provider.capabilities.maxPromptLength - reserved;
+    if (prompt.length <= maxLength) return prompt;
+    console.warn(`Prompt truncated to ${maxLength} characters for ${provider.label}`);
+    return prompt.slice(0, maxLength);
+};
 
 /**
- * Unified image service that delegates to the appropriate backend
- * based on the selected model.
+ * Unified image service that delegates to the registered provider
+ * for the selected model.
  */
 export const imageService = {
     /**
-     * Generate a slide image using the specified model.
+     * Generate a slide image using the specified model. With a brand kit, its rules are
+     * appended to the prompt (never truncated away) and its logo is stamped on the result.
+     * A layout is appended the same way as a composition constraint; providers that take
+     * reference images also get its wireframe.
      */
     async generateSlide(
         visualPrompt: string,
         referenceImages: File[],
-        model: ImageModel = 'gemini'
+        model: ImageModel = DEFAULT_IMAGE_PROVIDER,
+        signal?: AbortSignal,
+        brandKit?: BrandKit,
+        layout?: SlideLayout
     ): Promise<string> {
-        if (model === 'openai') {
-            return openAIService.generateSlide(visualPrompt, referenceImages);
-        }
-        return geminiService.generateSlide(visualPrompt, referenceImages);
+        const provider = getImageProvider(model);
+        const wireframe = !!layout && provider.capabilities.referenceImages;
+        const constraints = [
+            layout && describeLayout(layout, wireframe),
+            brandKit && describeBrandKit(brandKit),
+        ].filter(Boolean).map(rules => `\n\n${rules}`).join('');
+        const prompt = fitPrompt(visualPrompt, provider, constraints.length) + constraints;
+        const references = wireframe ? [...referenceImages, await layoutWireframe(layout)] : referenceImages;
+        const imageData = await provider.generate({ prompt, referenceImages: references, signal });
+        return brandKit?.logo
+            ? overlayLogo(imageData, brandKit.logo.imageData, brandKit.logo.placement, brandKit.margin)
+            : imageData;
     },
 
     /**
-     * Edit a slide image using the specified model.
+     * Edit a slide image using the specified model. With a mask, the provider gets it if
+     * it can inpaint and is told the edit area either way; the result is composited
+     * through the mask, so nothing outside the area changes.
      */
     async editSlide(
         currentImage: string,
         instruction: string,
-        model: ImageModel = 'gemini'
+        model: ImageModel = DEFAULT_IMAGE_PROVIDER,
+        signal?: AbortSignal,
+        mask?: EditMask
     ): Promise<string> {
-        if (model === 'openai') {
-            return openAIService.editSlide(currentImage, instruction);
+        const provider = getImageProvider(model);
+        if (!mask) {
+            return provider.edit({ image: currentImage, instruction: fitPrompt(instruction, provider), signal });
         }
-        return geminiService.editSlide(currentImage, instruction);
+
+        const areaRule = `\n\n${describeEditArea(mask.bounds)}`;
+        const edited = await provider.edit({
+            image: currentImage,
+            instruction: fitPrompt(instruction, provider, areaRule.length) + areaRule,
+            mask: provider.capabilities.maskedEdits ? mask.area : undefined,
+            signal,
+        });
+        return compositeMasked(currentImage, edited, mask.area);
+    },
+
+    /**
+     * Produces a text-free copy of a slide, used as the background layer
+     * behind native text boxes in editable export.
+     */
+    async removeText(
+        currentImage: string,
+        model: ImageModel = DEFAULT_IMAGE_PROVIDER,
+        signal?: AbortSignal
+    ): Promise<string> {
+        return this.editSlide(currentImage, TEXT_REMOVAL_INSTRUCTION, model, signal);
     },
 };
@@ -0,0 +1,44 @@
+import type { Worker } from 'tesseract.js';
+// Bundled with the app so OCR never reaches out to a CDN
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+
+/**
+ * Reads the text off rendered slides with a local tesseract.js worker.
+ * The engine (~7 MB) is only downloaded from our own origin the first time OCR runs.
+ */
+export class OcrService {
+    private workerPromise: Promise<Worker> | null = null;
+
+    private getWorker(): Promise<Worker> {
+        if (!this.workerPromise) {
+            this.workerPromise = (async () => {
+                const { createWorker, OEM } = await import('tesseract.js');
+                return createWorker('eng', OEM.LSTM_ONLY, {
+                    // Served at a fixed path by the build (see vite.config.ts); absolute, since the worker resolves it
+                    langPath: new URL(`${import.meta.env.BASE_URL}tesseract`, location.href).href,
+                    gzip: true,
+                    workerPath: workerUrl,
+                    corePath: coreUrl,
+                    cacheMethod: 'none',
+                });
+            })();
+            // Let the next call try again instead of caching the failure
+            this.workerPromise.catch(() => {
+                this.workerPromise = null;
+            });
+        }
+        return this.workerPromise;
+    }
+
+    /**
+     * Returns the text found in an image (data URL), one line per text line.
+     */
+    async recognize(imageData: string): Promise<string> {
+        const worker = await this.getWorker();
+        const { data } = await worker.recognize(imageData);
+        return data.text;
+    }
+}
+
+export const ocrService = new OcrService();
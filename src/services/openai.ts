@@ -1,60 +1,71 @@
+import { proxyUrl, USE_API_PROXY } from './apiProxy';
+import { kindFromStatus, parseRetryAfter, SlideGenerationError } from './errors';
+import { withAbortTimeout } from './requestControl';
+import { alphaMask } from '../utils/mask';
+
 const API_KEY = import.meta.env.VITE_OPENAI_API_KEY || '';
 
-if (!API_KEY) {
+if (!API_KEY && !USE_API_PROXY) {
     console.warn("Missing VITE_OPENAI_API_KEY. OpenAI image generation will not work.");
 }
 
 const OPENAI_API_URL = 'https://api.openai.com/v1/images';
 
+const ENDPOINTS = USE_API_PROXY
+    ? { generate: proxyUrl('/openai/generate'), edit: proxyUrl('/openai/edit') }
+    : { generate: `${OPENAI_API_URL}/generations`, edit: `${OPENAI_API_URL}/edits` };
+
+// The proxy adds the key server-side
+const authHeaders = (): Record<string, string> =>
+    USE_API_PROXY ? {} : { 'Authorization': `Bearer ${API_KEY}` };
+
+export interface OpenAIOptions {
+    model?: string;
+    size?: string;
+    quality?: string;
+    timeoutMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<OpenAIOptions> = {
+    model: import.meta.env.VITE_OPENAI_IMAGE_MODEL || 'gpt-image-1.5',
+    size: import.meta.env.VITE_OPENAI_IMAGE_SIZE || '1536x1024', // Landscape, closest to 16:9
+    quality: import.meta.env.VITE_OPENAI_IMAGE_QUALITY || 'high',
+    // High-quality gpt-image renders regularly take over a minute
+    timeoutMs: Number(import.meta.env.VITE_OPENAI_TIMEOUT_MS) || 120000,
+};
+
 export class OpenAIService {
+    private options: Required<OpenAIOptions>;
+
+    constructor(options: OpenAIOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+
     /**
-     * Generates a slide image using OpenAI's gpt-image-1 model.
+     * Generates a slide image using the configured OpenAI gpt-image model.
      */
-    async generateSlide(visualPrompt: string, referenceImages: File[]): Promise<string> {
+    async generateSlide(visualPrompt: string, signal?: AbortSignal): Promise<string> {
         try {
-            // Build the prompt, optionally referencing style from images
-            // Note: OpenAI image generation doesn't accept reference images directly
-            // We'll include a note about style in the prompt if refs exist
-            let finalPrompt = visualPrompt;
-            if (referenceImages.length > 0) {
-                finalPrompt += `\n\nStyle note: Create this in a professional, polished presentation style.`;
-            }
-            finalPrompt += `\n\nEnsure the image has a 16:9 aspect ratio suitable for presentations.`;
+            // OpenAI image generation can't see reference images; the style comes
+            // from the deck's brand kit, which is already part of the prompt
+            const finalPrompt = `${visualPrompt}\n\nEnsure the image has a 16:9 aspect ratio suitable for presentations.`;
 
-            const response = await fetch(`${OPENAI_API_URL}/generations`, {
+            return await withAbortTimeout(requestSignal => this.requestImage(ENDPOINTS.generate, {
                 method: 'POST',
+                signal: requestSignal,
                 headers: {
-                    'Authorization': `Bearer ${API_KEY}`,
+                    ...authHeaders(),
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({
-                    model: 'gpt-image-1.5',
+                    model: this.options.model,
                     prompt: finalPrompt,
                     n: 1,
-                    size: '1536x1024', // Landscape, closest to 16:9
-                    quality: 'high',
+                    size: this.options.size,
+                    quality: this.options.quality,
                 }),
-            });
-
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
-            }
-
-            const data = await response.json();
-
-            // OpenAI returns base64 data or URL depending on response_format
-            // Default is URL, but we need base64 for consistency with Gemini
-            if (data.data?.[0]?.b64_json) {
-                return `data:image/png;base64,${data.data[0].b64_json}`;
-            } else if (data.data?.[0]?.url) {
-                // Fetch the image and convert to base64
-                const imageResponse = await fetch(data.data[0].url);
-                const blob = await imageResponse.blob();
-                return await this.blobToBase64(blob);
-            }
-
-            throw new Error("No image generated from OpenAI");
+            }, "No image generated from OpenAI"), signal, this.options.timeoutMs);
 
         } catch (error: any) {
             console.error("Error generating slide with OpenAI:", error);
@@ -63,9 +74,10 @@ export class OpenAIService {
     }
 
     /**
-     * Edits a slide image using OpenAI's gpt-image-1 model.
+     * Edits a slide image using the configured OpenAI gpt-image model. With a mask
+     * (opaque where the image may change), only that area is inpainted.
      */
-    async editSlide(currentImage: string, instruction: string): Promise<string> {
+    async editSlide(currentImage: string, instruction: string, signal?: AbortSignal, mask?: string): Promise<string> {
         try {
             // OpenAI edit endpoint requires form data with image file
             const formData = new FormData();
@@ -80,35 +92,21 @@ export class OpenAIService {
             const byteArray = new Uint8Array(byteNumbers);
             const blob = new Blob([byteArray], { type: 'image/png' });
 
-            formData.append('model', 'gpt-image-1.5');
+            formData.append('model', this.options.model);
             formData.append('image', blob, 'slide.png');
+            if (mask) {
+                // OpenAI's masks are the other way round: transparent where the image may change
+                formData.append('mask', await alphaMask(mask), 'mask.png');
+            }
             formData.append('prompt', `Edit this image: ${instruction}. Maintain the 16:9 aspect ratio and overall professional presentation style. Only change what is specified, keep everything else the same.`);
-            formData.append('size', '1536x1024');
+            formData.append('size', this.options.size);
 
-            const response = await fetch(`${OPENAI_API_URL}/edits`, {
+            return await withAbortTimeout(requestSignal => this.requestImage(ENDPOINTS.edit, {
                 method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${API_KEY}`,
-                },
+                signal: requestSignal,
+                headers: authHeaders(),
                 body: formData,
-            });
-
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
-            }
-
-            const data = await response.json();
-
-            if (data.data?.[0]?.b64_json) {
-                return `data:image/png;base64,${data.data[0].b64_json}`;
-            } else if (data.data?.[0]?.url) {
-                const imageResponse = await fetch(data.data[0].url);
-                const blob = await imageResponse.blob();
-                return await this.blobToBase64(blob);
-            }
-
-            throw new Error("No image generated from OpenAI edit");
+            }, "No image generated from OpenAI edit"), signal, this.options.timeoutMs);
 
         } catch (error: any) {
             console.error("Error editing slide with OpenAI:", error);
@@ -116,6 +114,37 @@ export class OpenAIService {
         }
     }
 
+    /**
+     * Calls an images endpoint and returns the first image as a data URL.
+     */
+    private async requestImage(url: string, init: RequestInit, emptyMessage: string): Promise<string> {
+        const response = await fetch(url, init);
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            const message = `OpenAI API error: ${error.error?.message || response.statusText}`;
+            const kind = error.error?.code === 'moderation_blocked' || error.error?.code === 'content_policy_violation'
+                ? 'safety'
+                : kindFromStatus(response.status);
+            throw new SlideGenerationError(kind, message, parseRetryAfter(response.headers.get('retry-after')));
+        }
+
+        const data = await response.json();
+
+        // OpenAI returns base64 data or URL depending on response_format
+        // Default is URL, but we need base64 for consistency with Gemini
+        if (data.data?.[0]?.b64_json) {
+            return `data:image/png;base64,${data.data[0].b64_json}`;
+        } else if (data.data?.[0]?.url) {
+            // Fetch the image and convert to base64
+            const imageResponse = await fetch(data.data[0].url, { signal: init.signal });
+            const blob = await imageResponse.blob();
+            return await this.blobToBase64(blob);
+        }
+
+        throw new SlideGenerationError('no_image', emptyMessage);
+    }
+
     private blobToBase64(blob: Blob): Promise<string> {
         return new Promise((resolve, reject) => {
             const reader = new FileReader();
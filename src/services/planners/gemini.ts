@@ -0,0 +1,18 @@
+import { geminiService } from '../gemini';
+import type { DeckPlanner } from './types';
+
+export const geminiPlanner: DeckPlanner = {
+    id: 'gemini',
+    label: 'Gemini 3',
+    planDeck: ({ context, referenceImages, contextFiles, slideCount, brandKit }) =>
+        geminiService.planDeck(context, referenceImages, contextFiles, slideCount, brandKit),
+    replanSlides: ({ context, referenceImages, contextFiles, outline, index, count, guidance, brandKit }) =>
+        geminiService.replanSlides(context, referenceImages, contextFiles, outline, index, count, guidance, brandKit),
+    insertSlide: ({ context, referenceImages, contextFiles, outline, index, prompt, brandKit }) =>
+        geminiService.insertSlide(context, referenceImages, contextFiles, outline, index, prompt, brandKit),
+    reviseDeck: ({ context, referenceImages, contextFiles, outline, instruction, brandKit }) =>
+        geminiService.reviseDeck(context, referenceImages, contextFiles, outline, instruction, brandKit),
+    restyleDeck: ({ context, referenceImages, contextFiles, outline, brandKit }) =>
+        geminiService.restyleDeck(context, referenceImages, contextFiles, outline, brandKit),
+    analyzeBrand: (referenceImages) => geminiService.analyzeBrand(referenceImages),
+};
@@ -0,0 +1,38 @@
+import { proxyUrl, USE_API_PROXY } from '../apiProxy';
+import { geminiPlanner } from './gemini';
+import { OpenAICompatiblePlanner } from './openAICompatible';
+import { registerPlanner } from './registry';
+
+export { getPlanner, hasPlanner, listPlanners, registerPlanner } from './registry';
+export { OpenAICompatiblePlanner, type OpenAICompatibleOptions } from './openAICompatible';
+export { PlanValidationError, validatePlan, validateRestyle, validateRevisions } from './validation';
+export type { DeckPlanner, InsertRequest, PlannedSlide, PlanRequest, ReplanRequest, RestyleRequest, ReviseRequest, SlideRevision } from './types';
+
+export const DEFAULT_PLANNER = 'gemini';
+
+// Built-in planners. Additional planners can be registered from anywhere
+// before the UI renders, e.g. in main.tsx.
+registerPlanner(geminiPlanner);
+registerPlanner(new OpenAICompatiblePlanner({
+    id: 'openai',
+    label: 'OpenAI',
+    baseUrl: USE_API_PROXY ? proxyUrl('/openai/plan') : 'https://api.openai.com/v1',
+    model: import.meta.env.VITE_OPENAI_PLANNER_MODEL || 'gpt-4.1',
+    apiKey: USE_API_PROXY ? undefined : import.meta.env.VITE_OPENAI_API_KEY || '',
+    vision: true,
+    pdfFiles: true,
+    timeoutMs: Number(import.meta.env.VITE_OPENAI_TIMEOUT_MS) || undefined,
+}));
+
+// Any OpenAI-compatible server, e.g. Ollama (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1)
+const LOCAL_PLANNER_URL = import.meta.env.VITE_LOCAL_PLANNER_URL || '';
+if (LOCAL_PLANNER_URL) {
+    registerPlanner(new OpenAICompatiblePlanner({
+        id: 'local',
+        label: import.meta.env.VITE_LOCAL_PLANNER_LABEL || 'Local LLM',
+        baseUrl: LOCAL_PLANNER_URL,
+        model: import.meta.env.VITE_LOCAL_PLANNER_MODEL || 'llama3.1',
+        apiKey: import.meta.env.VITE_LOCAL_PLANNER_API_KEY || undefined,
+        vision: import.meta.env.VITE_LOCAL_PLANNER_VISION === 'true',
+    }));
+}
@@ -0,0 +1,170 @@
+import { csvContextText, isCsvFile } from '../../utils/csv';
+import { kindFromStatus, parseRetryAfter, SlideGenerationError } from '../errors';
+import { withAbortTimeout } from '../requestControl';
+import { BRAND_FORMAT_INSTRUCTIONS, BRAND_PROMPT, buildInsertPrompt, buildPlanPrompt, buildReplanPrompt, buildRestylePrompt, buildRevisePrompt, JSON_FORMAT_INSTRUCTIONS, REVISION_FORMAT_INSTRUCTIONS } from './prompts';
+import type { DeckPlanner, InsertRequest, PlannedSlide, PlanRequest, ReplanRequest, RestyleRequest, ReviseRequest, SlideRevision } from './types';
+import { parsePlanJson, validatePlan, validateRestyle, validateRevisions } from './validation';
+
+export interface OpenAICompatibleOptions {
+    id: string;
+    label: string;
+    /** Base URL of the API, up to and including `/v1`. */
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    /** Extra headers for every request, e.g. to identify the user to a proxy. */
+    headers?: Record<string, string>;
+    /** Send reference images (and image context files) as image parts; needs a vision model. */
+    vision?: boolean;
+    /** Send PDFs as file parts. Only OpenAI itself accepts these; other servers get a note instead. */
+    pdfFiles?: boolean;
+    timeoutMs?: number;
+}
+
+type ContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } }
+    | { type: 'file'; file: { filename: string; file_data: string } };
+
+/**
+ * Planner for any Chat Completions API in JSON mode: OpenAI itself, or a local
+ * server that speaks the same protocol (Ollama, llama.cpp, LM Studio, vLLM).
+ */
+export class OpenAICompatiblePlanner implements DeckPlanner {
+    readonly id: string;
+    readonly label: string;
+    private options: Required<Omit<OpenAICompatibleOptions, 'apiKey'>> & Pick<OpenAICompatibleOptions, 'apiKey'>;
+
+    constructor(options: OpenAICompatibleOptions) {
+        this.id = options.id;
+        this.label = options.label;
+        this.options = {
+            ...options,
+            baseUrl: options.baseUrl.replace(/\/+$/, ''),
+            headers: options.headers ?? {},
+            vision: options.vision ?? false,
+            pdfFiles: options.pdfFiles ?? false,
+            // Local models on modest hardware can take minutes to write a full outline
+            timeoutMs: options.timeoutMs ?? 300000,
+        };
+    }
+
+    async planDeck({ context, referenceImages, contextFiles, slideCount, brandKit }: PlanRequest): Promise<PlannedSlide[]> {
+        const raw = await this.complete(buildPlanPrompt(context, slideCount, brandKit), referenceImages, contextFiles);
+        return validatePlan(raw, slideCount);
+    }
+
+    async replanSlides(request: ReplanRequest): Promise<PlannedSlide[]> {
+        const { context, referenceImages, contextFiles, outline, index, count, guidance, brandKit } = request;
+        const raw = await this.complete(buildReplanPrompt(context, outline, index, count, guidance, brandKit), referenceImages, contextFiles);
+        return validatePlan(raw, count);
+    }
+
+    async insertSlide({ context, referenceImages, contextFiles, outline, index, prompt, brandKit }: InsertRequest): Promise<PlannedSlide> {
+        const raw = await this.complete(buildInsertPrompt(context, outline, index, prompt, brandKit), referenceImages, contextFiles);
+        return validatePlan(raw, 1)[0];
+    }
+
+    async reviseDeck({ context, referenceImages, contextFiles, outline, instruction, brandKit }: ReviseRequest): Promise<SlideRevision[]> {
+        const prompt = buildRevisePrompt(context, outline, instruction, brandKit);
+        const raw = await this.complete(prompt, referenceImages, contextFiles, REVISION_FORMAT_INSTRUCTIONS);
+        return validateRevisions(raw, outline);
+    }
+
+    async restyleDeck({ context, referenceImages, contextFiles, outline, brandKit }: RestyleRequest): Promise<PlannedSlide[]> {
+        const raw = await this.complete(buildRestylePrompt(context, outline, brandKit), referenceImages, contextFiles);
+        return validateRestyle(raw, outline);
+    }
+
+    async analyzeBrand(referenceImages: File[]): Promise<unknown> {
+        // A text-only model could only guess, so the kit keeps the measured palette instead
+        if (!this.options.vision || referenceImages.length === 0) return null;
+        return this.complete(BRAND_PROMPT, referenceImages, [], BRAND_FORMAT_INSTRUCTIONS);
+    }
+
+    private async complete(
+        prompt: string,
+        referenceImages: File[],
+        contextFiles: File[],
+        format: string = JSON_FORMAT_INSTRUCTIONS
+    ): Promise<unknown> {
+        const content: ContentPart[] = [
+            { type: 'text', text: prompt },
+            ...(await this.referenceParts(referenceImages)),
+            ...(await Promise.all(contextFiles.map(file => this.contextPart(file)))),
+        ];
+
+        const response = await withAbortTimeout(signal => fetch(`${this.options.baseUrl}/chat/completions`, {
+            method: 'POST',
+            signal,
+            headers: {
+                'Content-Type': 'application/json',
+                ...this.options.headers,
+                ...(this.options.apiKey ? { 'Authorization': `Bearer ${this.options.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: this.options.model,
+                response_format: { type: 'json_object' },
+                messages: [
+                    { role: 'system', content: format },
+                    { role: 'user', content },
+                ],
+            }),
+        }), undefined, this.options.timeoutMs);
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({}));
+            throw new SlideGenerationError(
+                kindFromStatus(response.status),
+                `${this.label} planner error: ${error.error?.message || response.statusText}`,
+                parseRetryAfter(response.headers.get('retry-after'))
+            );
+        }
+
+        const data = await response.json();
+        const text = data.choices?.[0]?.message?.content;
+        if (typeof text !== 'string') {
+            throw new SlideGenerationError('unknown', `${this.label} planner returned no message`);
+        }
+        return parsePlanJson(text);
+    }
+
+    private async referenceParts(referenceImages: File[]): Promise<ContentPart[]> {
+        if (referenceImages.length === 0) return [];
+        if (!this.options.vision) {
+            // Text-only models still benefit from knowing the refs exist, e.g. to keep style notes generic
+            return [{ type: 'text', text: `(${referenceImages.length} style reference image(s) were provided but cannot be shown to you.)` }];
+        }
+        return Promise.all(referenceImages.map(async (file): Promise<ContentPart> => ({
+            type: 'image_url',
+            image_url: { url: await this.fileToDataUrl(file) },
+        })));
+    }
+
+    private async contextPart(file: File): Promise<ContentPart> {
+        if (isCsvFile(file)) {
+            return { type: 'text', text: csvContextText(file.name, await file.text()) };
+        }
+        // Handle Text Files (txt, md, html)
+        if (file.type.startsWith('text/') || file.name.endsWith('.md')) {
+            return { type: 'text', text: `[FILE: ${file.name}]\n${await file.text()}\n[END FILE]` };
+        }
+        if (file.type.startsWith('image/') && this.options.vision) {
+            return { type: 'image_url', image_url: { url: await this.fileToDataUrl(file) } };
+        }
+        if (file.type === 'application/pdf' && this.options.pdfFiles) {
+            return { type: 'file', file: { filename: file.name, file_data: await this.fileToDataUrl(file) } };
+        }
+        console.warn(`${this.label} planner can't read ${file.name}; it was skipped`);
+        return { type: 'text', text: `[FILE: ${file.name}] (not readable by this model)` };
+    }
+
+    private fileToDataUrl(file: File): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = reject;
+            reader.readAsDataURL(file);
+        });
+    }
+}
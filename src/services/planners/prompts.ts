@@ -0,0 +1,300 @@
+import type { BrandKit } from '../../types/deck';
+import { describeBrandKit } from '../../utils/brandKit';
+import { LAYOUT_TEMPLATES, SLIDE_LAYOUTS } from '../../utils/layouts';
+import { composeSlidePrompt } from '../../utils/slideContent';
+import type { PlannedSlide } from './types';
+
+/**
+ * Planning prompts shared by every planner backend, so switching models
+ * changes who writes the outline but not what is asked for.
+ */
+
+// With a brand kit the style rules are explicit, so the planner copies them instead of guessing from the refs
+const styleRule = (brandKit?: BrandKit) => brandKit
+    ? 'The BRAND KIT below: its exact hex codes, fonts, margins and title placement.'
+    : 'Stylistic commonalities from the Reference Images (hex codes, logo placement).';
+
+// Charts and tables are drawn from the CSV itself, so the planner only has to name the columns
+const DATA_SOURCE_RULE = `When the data comes from a CSV file, bind it with 'source': the file name and the exact column
+           names from its header (for a chart, the label column and the value columns; add a 'filter' to keep only rows
+           where one column equals a value). The values are then read from the file, so 'series' or 'rows' can stay empty.`;
+
+// The planner picks each slide's layout from the template library instead of inventing one
+const LAYOUT_LIBRARY = SLIDE_LAYOUTS
+    .map(layout => `- "${layout}": ${LAYOUT_TEMPLATES[layout].description}`)
+    .join('\n        ');
+
+const brandSection = (brandKit?: BrandKit) => brandKit ? `\n${describeBrandKit(brandKit)}\n` : '';
+
+export const buildPlanPrompt = (context: string, slideCount: number, brandKit?: BrandKit) => `
+        You are an expert Presentation Designer.
+        Plan a professional slide deck about: "${context}".
+
+        INPUTS:
+        1. Reference Images: Use these for design style, colors, layout, and branding ONLY.
+        2. Context Files: Use these documents (PDFs, text) as the SOURCE TRUTH for the content, data, and details of the presentation.
+
+        TASK:
+        Output a JSON list of EXACTLY ${slideCount} slides.
+        For each slide, fill 'content' with what is on the slide, field by field:
+        1. 'layout': the best fit from this LAYOUT LIBRARY. Reuse layouts so recurring kinds of slides look alike:
+        ${LAYOUT_LIBRARY}
+        2. 'title' (the heading), and 'subtitle', 'bullets', 'body' as the layout needs: the exact on-slide text,
+           derived from the Context Files where applicable.
+        3. 'chart' when the slide plots numbers, or 'table' when it shows rows of data, taken from the Context Files, never invented.
+           ${DATA_SOURCE_RULE}
+        4. 'metrics' on a kpi-grid slide: 2-6 headline numbers, each with a short label.
+        5. 'imageDescription' when the slide shows a photo or illustration.
+
+        Then write a 'visualPrompt' with the art direction for the slide: background, composition, imagery,
+        colors and typography. It is combined with 'content' into the prompt for an image generation model
+        that creates the FINAL SLIDE as a single image, so do not repeat the on-slide text in it.
+        The layout's composition is given to the image model separately, so the 'visualPrompt' MUST include:
+        1. The background and any decorative elements that suit the chosen layout.
+        2. ${styleRule(brandKit)}
+        3. Aspect ratio instruction: "Compose for 16:9".
+        ${brandSection(brandKit)}
+
+        Finally, write 'speakerNotes' for each slide: 60-150 words the presenter says out loud,
+        expanding on the slide with facts, figures and examples from the Context Files rather than repeating the on-slide text.
+      `;
+
+export const buildReplanPrompt = (
+    context: string,
+    outline: PlannedSlide[],
+    index: number,
+    count: number,
+    guidance: string,
+    brandKit?: BrandKit
+) => {
+    const outlineText = outline
+        .map((s, i) => `${i === index ? '>>> ' : ''}Slide ${i + 1} (${s.content?.layout ?? 'no'} layout): ${s.title}\n${composeSlidePrompt(s)}`)
+        .join('\n\n');
+
+    return `
+        You are an expert Presentation Designer revising one slide of a planned deck about: "${context}".
+
+        CURRENT OUTLINE (the slide to revise is marked with >>>):
+        ${outlineText}
+
+        INPUTS:
+        1. Reference Images: Use these for design style, colors, layout, and branding ONLY.
+        2. Context Files: Use these documents as the SOURCE TRUTH for content.
+
+        TASK:
+        Replace slide ${index + 1} with EXACTLY ${count} slide${count > 1 ? 's that together cover its content' : ''}.
+        ${guidance ? `Follow this guidance from the author: "${guidance}".` : ''}
+        Keep the narrative consistent with the surrounding slides and do not repeat their content.
+        Each slide must follow the same rules as the rest of the outline: 'content' with the layout from the LAYOUT LIBRARY below,
+        the exact on-slide text split into title, subtitle, bullets and body, any chart or table data taken from the Context Files
+        (${DATA_SOURCE_RULE}), 'metrics' on a kpi-grid slide, and an image description if there is an image;
+        and a 'visualPrompt' with the art direction (background, ${brandKit ? 'the BRAND KIT below' : 'stylistic details from the Reference Images'},
+        and "Compose for 16:9") that does not repeat the on-slide text.
+        LAYOUT LIBRARY:
+        ${LAYOUT_LIBRARY}
+        Write 'speakerNotes' (60-150 words the presenter says, grounded in the Context Files).
+        ${brandSection(brandKit)}
+      `;
+};
+
+export const buildInsertPrompt = (
+    context: string,
+    outline: PlannedSlide[],
+    index: number,
+    prompt: string,
+    brandKit?: BrandKit
+) => {
+    const slideText = (s: PlannedSlide, i: number) =>
+        `Slide ${i + 1} (${s.content?.layout ?? 'no'} layout): ${s.title}\n${composeSlidePrompt(s)}`;
+    const outlineText = [
+        ...outline.slice(0, index).map(slideText),
+        '>>> NEW SLIDE GOES HERE',
+        ...outline.slice(index).map((s, i) => slideText(s, index + i)),
+    ].join('\n\n');
+
+    return `
+        You are an expert Presentation Designer adding one slide to a planned deck about: "${context}".
+
+        CURRENT OUTLINE (where the new slide goes is marked with >>>):
+        ${outlineText}
+
+        INPUTS:
+        1. Reference Images: Use these for design style, colors, layout, and branding ONLY.
+        2. Context Files: Use these documents as the SOURCE TRUTH for content.
+
+        TASK:
+        Output a JSON list with EXACTLY 1 slide, the new slide ${index + 1}, about: "${prompt}".
+        It must flow from the slide before it into the slide after it, and not repeat their content.
+        It follows the same rules as the rest of the outline: 'content' with the layout from the LAYOUT LIBRARY below
+        (reuse the layout of similar slides so it looks alike), the exact on-slide text split into title, subtitle,
+        bullets and body, any chart or table data taken from the Context Files (${DATA_SOURCE_RULE}), 'metrics' on a
+        kpi-grid slide, and an image description if there is an image; and a 'visualPrompt' with the art direction
+        (background, ${brandKit ? 'the BRAND KIT below' : 'stylistic details from the Reference Images'}, and "Compose for 16:9")
+        that matches its neighbours and does not repeat the on-slide text.
+        LAYOUT LIBRARY:
+        ${LAYOUT_LIBRARY}
+        Write 'speakerNotes' (60-150 words the presenter says, grounded in the Context Files).
+        ${brandSection(brandKit)}
+      `;
+};
+
+export const buildRevisePrompt = (context: string, outline: PlannedSlide[], instruction: string, brandKit?: BrandKit) => {
+    // As JSON, so revised slides can copy the fields they don't change
+    const outlineJson = JSON.stringify(outline.map(({ slideNumber, title, visualPrompt, content, speakerNotes }) =>
+        ({ slideNumber, title, visualPrompt, content, speakerNotes })), null, 1);
+
+    return `
+        You are an expert Presentation Designer applying one instruction from the author to a whole planned deck about: "${context}".
+
+        INSTRUCTION: "${instruction}"
+
+        CURRENT OUTLINE (JSON):
+        ${outlineJson}
+
+        INPUTS:
+        1. Reference Images: Use these for design style, colors, layout, and branding ONLY.
+        2. Context Files: Use these documents as the SOURCE TRUTH for content.
+
+        TASK:
+        Work out which slides the instruction affects and return a revision for each of them, and for no others.
+        A revision has the slide's 'slideNumber' and ALL its fields ('title', 'visualPrompt', 'content', 'speakerNotes'),
+        changed only as far as the instruction requires; copy everything else exactly from the outline.
+        The slides keep following the outline's rules: 'content' holds the exact on-slide text with a layout from the
+        LAYOUT LIBRARY below, chart and table data come from the Context Files, and the 'visualPrompt' is art direction
+        (background, ${brandKit ? 'the BRAND KIT below' : 'stylistic details from the Reference Images'}, "Compose for 16:9")
+        that does not repeat the on-slide text.
+        Choose an 'action' for each revision:
+        - "edit" when the change can be painted onto the current slide image without redrawing it (a color, a word or two,
+          adding or removing one element). Put a precise instruction for an image editor in 'editInstruction'.
+        - "regenerate" when the slide has to be drawn again (rewritten text, a new layout, a different theme or look).
+        LAYOUT LIBRARY:
+        ${LAYOUT_LIBRARY}
+        ${brandSection(brandKit)}
+      `;
+};
+
+export const buildRestylePrompt = (context: string, outline: PlannedSlide[], brandKit?: BrandKit) => {
+    // The imported art direction is a placeholder, so only the content and notes are sent
+    const deckJson = JSON.stringify(outline.map(({ slideNumber, title, content, speakerNotes }) =>
+        ({ slideNumber, title, content, speakerNotes })), null, 1);
+
+    return `
+        You are an expert Presentation Designer restyling an existing deck about: "${context}".
+
+        EXISTING DECK (JSON, text extracted from the original file):
+        ${deckJson}
+
+        INPUTS:
+        1. Reference Images: the NEW look of the deck. Use these for design style, colors, layout, and branding ONLY.
+        2. Context Files: background for the speaker notes, if any.
+
+        TASK:
+        Return EXACTLY ${outline.length} slides: one per slide of the existing deck, in the same order, each with the
+        'slideNumber' of the slide it restyles. Do not add, drop, merge or reorder slides.
+        For each slide, fill 'content' from the existing slide's text:
+        1. Keep the wording. You may only fix how the text is split between 'title', 'subtitle', 'bullets' and 'body'
+           (e.g. a heading that was extracted as a bullet), never rewrite, summarize or add to it.
+        2. Keep tables and their rows exactly. Keep 'imageDescription' when the slide has a picture.
+        3. 'layout': keep the existing one unless another from this LAYOUT LIBRARY clearly fits the content better:
+        ${LAYOUT_LIBRARY}
+
+        Then write a 'visualPrompt' with the art direction for the slide in the new style: background, composition,
+        imagery, colors and typography. It is combined with 'content' into the prompt for an image generation model
+        that creates the FINAL SLIDE as a single image, so do not repeat the on-slide text in it. It MUST include:
+        1. The background and any decorative elements that suit the slide's layout.
+        2. ${styleRule(brandKit)}
+        3. Aspect ratio instruction: "Compose for 16:9".
+        ${brandSection(brandKit)}
+
+        Keep existing 'speakerNotes' as they are. Only for slides without notes, write 60-150 words the presenter says
+        out loud, expanding on the slide rather than repeating its text.
+      `;
+};
+
+export const BRAND_PROMPT = `
+        You are a brand designer. The attached images are style references for a slide deck
+        (logos, past slides, mood boards). Describe the brand they share so every new slide can follow it:
+        the main colors as hex codes, the fonts (or the closest common font families), how far content
+        sits from the slide edges, where slide titles are placed, and where the logo is, if any.
+      `;
+
+// One slide, as both the plan and the revision formats spell it out
+const SLIDE_SHAPE = `{
+      "slideNumber": 1,
+      "title": "string",
+      "visualPrompt": "string",
+      "content": {
+        "layout": "bullets",
+        "title": "string",
+        "subtitle": "string",
+        "bullets": ["string"],
+        "body": "string",
+        "chart": {
+          "type": "bar",
+          "series": [{ "name": "string", "labels": ["string"], "values": [0] }],
+          "source": { "file": "data.csv", "labelColumn": "string", "valueColumns": ["string"], "filter": { "column": "string", "equals": "string" } }
+        },
+        "table": {
+          "columns": ["string"],
+          "rows": [["string"]],
+          "source": { "file": "data.csv", "columns": ["string"], "filter": { "column": "string", "equals": "string" } }
+        },
+        "metrics": [{ "value": "string", "label": "string" }],
+        "imageDescription": "string"
+      },
+      "speakerNotes": "string"`;
+
+const SLIDE_SHAPE_NOTES = `'layout' is one of ${SLIDE_LAYOUTS.join(', ')}; chart 'type' is bar, line or pie.
+A chart or table 'source' binds it to columns of a CSV Context File; 'filter' is optional.
+Everything in 'content' except 'layout', 'title' and 'bullets' is optional.`;
+
+/**
+ * Spells out the plan shape for backends that only offer a generic JSON mode
+ * (no response schema), which also requires a top-level object.
+ */
+export const JSON_FORMAT_INSTRUCTIONS = `
+Respond with a single JSON object and nothing else, in this shape:
+{
+  "slides": [
+    ${SLIDE_SHAPE}
+    }
+  ]
+}
+${SLIDE_SHAPE_NOTES}`;
+
+/**
+ * The brand analysis, for backends without a response schema.
+ */
+export const BRAND_FORMAT_INSTRUCTIONS = `
+Respond with a single JSON object and nothing else, in this shape:
+{
+  "palette": [{ "hex": "#RRGGBB", "role": "background" }],
+  "headingFont": "string",
+  "bodyFont": "string",
+  "margin": 0.06,
+  "titlePlacement": "top-left",
+  "logo": { "imageIndex": 0, "region": { "x": 0, "y": 0, "w": 0.1, "h": 0.1 }, "placement": "top-right" },
+  "styleNotes": "string"
+}
+'palette' has 3-6 colors, most important first; 'role' is e.g. background, primary, accent or text.
+'margin' is the typical distance of content from the slide edges, as a fraction (0-1) of the slide width.
+'titlePlacement' is top-left, top-center, middle-left or center.
+'logo' is optional: the 0-based reference image it appears in most clearly, a tight box around it as fractions (0-1)
+of that image's width and height, and its corner (top-left, top-right, bottom-left or bottom-right).
+'styleNotes' is one or two sentences on imagery, shapes and mood.`;
+
+/**
+ * The same for deck revisions: only the affected slides, each with its action.
+ */
+export const REVISION_FORMAT_INSTRUCTIONS = `
+Respond with a single JSON object and nothing else, in this shape:
+{
+  "revisions": [
+    ${SLIDE_SHAPE},
+      "action": "regenerate",
+      "editInstruction": "string"
+    }
+  ]
+}
+'action' is edit or regenerate; 'editInstruction' is only needed for edit.
+${SLIDE_SHAPE_NOTES}`;
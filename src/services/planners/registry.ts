@@ -0,0 +1,22 @@
+import type { DeckPlanner } from './types';
+
+const planners = new Map<string, DeckPlanner>();
+
+/**
+ * Makes a planner available to the deck builder. Registering an existing id replaces it.
+ */
+export const registerPlanner = (planner: DeckPlanner): void => {
+    planners.set(planner.id, planner);
+};
+
+export const getPlanner = (id: string): DeckPlanner => {
+    const planner = planners.get(id);
+    if (!planner) {
+        throw new Error(`Unknown planner "${id}". Registered: ${[...planners.keys()].join(', ')}`);
+    }
+    return planner;
+};
+
+export const hasPlanner = (id: string): boolean => planners.has(id);
+
+export const listPlanners = (): DeckPlanner[] => [...planners.values()];
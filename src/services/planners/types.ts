@@ -0,0 +1,97 @@
+import type { BrandKit, SlideContent } from '../../types/deck';
+
+export interface PlannedSlide {
+    slideNumber: number;
+    title: string;
+    visualPrompt: string;
+    content?: SlideContent;
+    speakerNotes?: string;
+}
+
+export interface PlanRequest {
+    context: string;
+    referenceImages: File[];
+    contextFiles: File[];
+    slideCount: number;
+    brandKit?: BrandKit;
+}
+
+export interface ReplanRequest {
+    context: string;
+    referenceImages: File[];
+    contextFiles: File[];
+    outline: PlannedSlide[];
+    /** Slide of the outline to replace. */
+    index: number;
+    /** 1 rewrites the slide, 2+ splits it. */
+    count: number;
+    guidance: string;
+    brandKit?: BrandKit;
+}
+
+export interface InsertRequest {
+    context: string;
+    referenceImages: File[];
+    contextFiles: File[];
+    outline: PlannedSlide[];
+    /** Position of the new slide: it goes before the outline's slide at this index. */
+    index: number;
+    /** What the author wants on the new slide. */
+    prompt: string;
+    brandKit?: BrandKit;
+}
+
+export interface ReviseRequest {
+    context: string;
+    referenceImages: File[];
+    contextFiles: File[];
+    outline: PlannedSlide[];
+    /** Deck-wide instruction from the author, e.g. "shorten all bullets to 6 words". */
+    instruction: string;
+    brandKit?: BrandKit;
+}
+
+export interface RestyleRequest {
+    context: string;
+    referenceImages: File[];
+    contextFiles: File[];
+    /** The imported deck whose text and structure are kept. */
+    outline: PlannedSlide[];
+    brandKit?: BrandKit;
+}
+
+/**
+ * One slide changed by a deck-wide instruction: its revised plan, and whether the
+ * change is painted onto the current image or the slide is rendered again.
+ */
+export interface SlideRevision {
+    /** Slide of the outline being revised. */
+    index: number;
+    slide: PlannedSlide;
+    action: 'edit' | 'regenerate';
+    /** For 'edit': what to change on the current image. */
+    editInstruction?: string;
+}
+
+/**
+ * A backend that turns the user's brief into a deck outline. Implementations
+ * must return plans that have been through validatePlan, so callers can rely
+ * on every slide having a title and a visual prompt.
+ */
+export interface DeckPlanner {
+    id: string;
+    label: string;
+    planDeck(request: PlanRequest): Promise<PlannedSlide[]>;
+    replanSlides(request: ReplanRequest): Promise<PlannedSlide[]>;
+    /** Plans one new slide to go between two slides of the outline. */
+    insertSlide(request: InsertRequest): Promise<PlannedSlide>;
+    /** Returns only the slides the instruction affects. */
+    reviseDeck(request: ReviseRequest): Promise<SlideRevision[]>;
+    /** Returns one slide per slide of the outline, in the same order. */
+    restyleDeck(request: RestyleRequest): Promise<PlannedSlide[]>;
+    /**
+     * Reads the brand off the reference images, as raw JSON for extractBrandKit to
+     * validate. Backends that can't see images resolve to null.
+     */
+    analyzeBrand(referenceImages: File[]): Promise<unknown>;
+}
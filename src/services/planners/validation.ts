@@ -0,0 +1,229 @@
+import type { ChartSource, ChartType, DataFilter, DataSeries, SlideChart, SlideContent, SlideMetric, SlideTable, TableSource } from '../../types/deck';
+import { SLIDE_LAYOUTS } from '../../utils/layouts';
+import { emptyContent } from '../../utils/slideContent';
+import type { PlannedSlide, SlideRevision } from './types';
+
+/**
+ * Thrown when a planner answers with something that isn't a usable deck plan
+ * (malformed JSON, missing slides, slides without a title or visual prompt).
+ */
+export class PlanValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PlanValidationError';
+    }
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const parseMetric = (value: unknown): SlideMetric | undefined => {
+    if (!isObject(value)) return undefined;
+    const metric = asString(typeof value.value === 'number' ? String(value.value) : value.value);
+    const label = asString(value.label);
+    return metric && label ? { value: metric, label } : undefined;
+};
+
+const CHART_TYPES: ChartType[] = ['bar', 'line', 'pie'];
+
+const parseSeries = (value: unknown): DataSeries | undefined => {
+    if (!isObject(value) || !Array.isArray(value.labels) || !Array.isArray(value.values)) return undefined;
+    const values = value.values;
+    // Pair labels with values, dropping points where either is unusable
+    const points = value.labels.flatMap((label, i) => {
+        const number = Number(values[i]);
+        return typeof label === 'string' && Number.isFinite(number) ? [{ label, number }] : [];
+    });
+    if (points.length === 0) return undefined;
+    return {
+        name: asString(value.name) ?? '',
+        labels: points.map(p => p.label),
+        values: points.map(p => p.number),
+    };
+};
+
+const asStrings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.map(asString).filter((s): s is string => !!s) : [];
+
+const parseFilter = (value: unknown): DataFilter | undefined => {
+    if (!isObject(value)) return undefined;
+    const column = asString(value.column);
+    const equals = asString(value.equals);
+    return column && equals ? { column, equals } : undefined;
+};
+
+const parseChartSource = (value: unknown): ChartSource | undefined => {
+    if (!isObject(value)) return undefined;
+    const file = asString(value.file);
+    const labelColumn = asString(value.labelColumn);
+    const valueColumns = asStrings(value.valueColumns);
+    if (!file || !labelColumn || valueColumns.length === 0) return undefined;
+    return { file, labelColumn, valueColumns, filter: parseFilter(value.filter) };
+};
+
+const parseChart = (value: unknown): SlideChart | undefined => {
+    if (!isObject(value)) return undefined;
+    const series = Array.isArray(value.series)
+        ? value.series.map(parseSeries).filter((s): s is DataSeries => !!s)
+        : [];
+    const source = parseChartSource(value.source);
+    // A bound chart gets its series from the file later
+    if (series.length === 0 && !source) return undefined;
+    return { type: CHART_TYPES.find(t => t === value.type) ?? 'bar', series, source };
+};
+
+const parseTableSource = (value: unknown): TableSource | undefined => {
+    if (!isObject(value)) return undefined;
+    const file = asString(value.file);
+    const columns = asStrings(value.columns);
+    return file && columns.length > 0 ? { file, columns, filter: parseFilter(value.filter) } : undefined;
+};
+
+const parseTable = (value: unknown): SlideTable | undefined => {
+    if (!isObject(value)) return undefined;
+    const columns = asStrings(value.columns);
+    const rows = Array.isArray(value.rows)
+        ? value.rows.filter(Array.isArray).map(row => columns.map((_, i) => String(row[i] ?? '').trim()))
+        : [];
+    const source = parseTableSource(value.source);
+    if (columns.length === 0 && !source) return undefined;
+    return { columns, rows, source };
+};
+
+const parseContent = (value: unknown, fallbackTitle: string): SlideContent => {
+    if (!isObject(value)) return emptyContent(fallbackTitle);
+    const chart = parseChart(value.chart);
+    const table = parseTable(value.table);
+    const metrics = Array.isArray(value.metrics) ? value.metrics.map(parseMetric).filter((m): m is SlideMetric => !!m) : [];
+    return {
+        layout: SLIDE_LAYOUTS.find(l => l === value.layout) ?? (chart ? 'chart' : table ? 'table' : metrics.length > 0 ? 'kpi-grid' : 'bullets'),
+        title: asString(value.title) ?? fallbackTitle,
+        subtitle: asString(value.subtitle),
+        bullets: asStrings(value.bullets),
+        body: asString(value.body),
+        chart,
+        table,
+        metrics: metrics.length > 0 ? metrics : undefined,
+        imageDescription: asString(value.imageDescription),
+    };
+};
+
+/**
+ * Parses a planner's raw text answer, tolerating the code fences some models
+ * wrap JSON in.
+ */
+export const parsePlanJson = (text: string): unknown => {
+    const stripped = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+        return JSON.parse(stripped);
+    } catch {
+        throw new PlanValidationError('Planner did not return valid JSON');
+    }
+};
+
+/**
+ * Checks a parsed plan and normalizes it into PlannedSlides: accepts a bare
+ * array or a `{ slides: [...] }` object, drops unusable fields, renumbers the
+ * slides, and trims extras beyond `expectedCount`.
+ */
+export const validatePlan = (raw: unknown, expectedCount?: number): PlannedSlide[] => {
+    const items = Array.isArray(raw) ? raw : isObject(raw) && Array.isArray(raw.slides) ? raw.slides : null;
+    if (!items) throw new PlanValidationError('Planner response has no list of slides');
+
+    const slides = items.map((item, i): PlannedSlide => {
+        if (!isObject(item)) throw new PlanValidationError(`Slide ${i + 1} is not an object`);
+        const title = asString(item.title);
+        const visualPrompt = asString(item.visualPrompt);
+        if (!title || !visualPrompt) {
+            throw new PlanValidationError(`Slide ${i + 1} is missing a title or visual prompt`);
+        }
+        return {
+            slideNumber: i + 1,
+            title,
+            visualPrompt,
+            content: parseContent(item.content, title),
+            speakerNotes: asString(item.speakerNotes),
+        };
+    });
+
+    if (slides.length === 0) throw new PlanValidationError('Planner returned no slides');
+    if (expectedCount !== undefined && slides.length !== expectedCount) {
+        console.warn(`Planner returned ${slides.length} slides, expected ${expectedCount}`);
+    }
+    return expectedCount !== undefined ? slides.slice(0, expectedCount) : slides;
+};
+
+/**
+ * Checks a parsed deck revision against the outline it revises: accepts a bare array
+ * or a `{ revisions: [...] }` object, drops revisions of slides that don't exist (or
+ * repeat one), and fills fields the planner left out from the original slide. An
+ * edit without an instruction becomes a regeneration.
+ */
+export const validateRevisions = (raw: unknown, outline: PlannedSlide[]): SlideRevision[] => {
+    const items = Array.isArray(raw) ? raw : isObject(raw) && Array.isArray(raw.revisions) ? raw.revisions : null;
+    if (!items) throw new PlanValidationError('Planner response has no list of revisions');
+
+    const revisions = new Map<number, SlideRevision>();
+    for (const item of items) {
+        if (!isObject(item)) continue;
+        const index = Number(item.slideNumber) - 1;
+        const original = outline[index];
+        if (!original || revisions.has(index)) continue;
+
+        const title = asString(item.title) ?? original.title;
+        const editInstruction = asString(item.editInstruction);
+        revisions.set(index, {
+            index,
+            slide: {
+                slideNumber: original.slideNumber,
+                title,
+                visualPrompt: asString(item.visualPrompt) ?? original.visualPrompt,
+                content: isObject(item.content) ? parseContent(item.content, title) : original.content,
+                speakerNotes: asString(item.speakerNotes) ?? original.speakerNotes,
+            },
+            action: item.action === 'edit' && editInstruction ? 'edit' : 'regenerate',
+            editInstruction: item.action === 'edit' ? editInstruction : undefined,
+        });
+    }
+    return [...revisions.values()].sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Checks a restyled deck against the deck it restyles: one slide per original, in
+ * the original order. Slides are matched by slideNumber; an original the planner
+ * skipped, or returned without art direction, keeps its own plan. Speaker notes the
+ * author already wrote are kept over the planner's.
+ */
+export const validateRestyle = (raw: unknown, outline: PlannedSlide[]): PlannedSlide[] => {
+    const items = Array.isArray(raw) ? raw : isObject(raw) && Array.isArray(raw.slides) ? raw.slides : null;
+    if (!items) throw new PlanValidationError('Planner response has no list of slides');
+
+    const restyled = new Map<number, PlannedSlide>();
+    for (const item of items) {
+        if (!isObject(item)) continue;
+        const index = Number(item.slideNumber) - 1;
+        const original = outline[index];
+        const visualPrompt = asString(item.visualPrompt);
+        if (!original || !visualPrompt || restyled.has(index)) continue;
+
+        const title = asString(item.title) ?? original.title;
+        restyled.set(index, {
+            slideNumber: index + 1,
+            title,
+            visualPrompt,
+            content: isObject(item.content) ? parseContent(item.content, title) : original.content,
+            speakerNotes: original.speakerNotes ?? asString(item.speakerNotes),
+        });
+    }
+
+    if (restyled.size === 0) throw new PlanValidationError('Planner returned no restyled slides');
+    if (restyled.size < outline.length) {
+        console.warn(`Planner restyled ${restyled.size} of ${outline.length} slides; the rest keep their imported plan`);
+    }
+    return outline.map((original, index) => restyled.get(index) ?? { ...original, slideNumber: index + 1 });
+};
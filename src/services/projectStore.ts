@@ -0,0 +1,214 @@
+import type { BrandKit, DeckStep, Slide, VariantSettings } from '../types/deck';
+import type { ImageModel } from './imageService';
+import { createThumbnail } from '../utils/image';
+import { createVersion } from '../utils/slideVersions';
+
+const DB_NAME = 'prodeck';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const SUMMARIES_STORE = 'summaries';
+
+/**
+ * Everything needed to reopen a deck exactly where it was left.
+ * Files are stored as-is; IndexedDB clones File/Blob objects natively.
+ */
+export interface DeckProject {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    context: string;
+    slideCount: number;
+    imageModel: ImageModel;
+    /** Id of the planner backend; missing on projects saved before planners were pluggable. */
+    planner: string;
+    /** Variants rendered per slide; missing on projects saved before variants, which rendered one. */
+    variants?: VariantSettings;
+    refImages: File[];
+    contextFiles: File[];
+    brandKit?: BrandKit;
+    slides: Slide[];
+    step: DeckStep;
+}
+
+/**
+ * Lightweight record for the project list, kept in its own store so listing
+ * projects doesn't have to load every slide image.
+ */
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    slideTotal: number;
+    thumbnail?: string;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+/**
+ * Fills in slide fields added after a project was saved: stable ids, version
+ * history (a bare imageData is adopted as the slide's first version), and a layout
+ * for content planned before layouts existed.
+ */
+const normalizeSlide = (slide: Slide): Slide => {
+    let normalized = slide.id ? slide : { ...slide, id: crypto.randomUUID() };
+    if (!normalized.versions) {
+        const versions = normalized.imageData ? [createVersion(normalized.imageData, 'import')] : [];
+        normalized = { ...normalized, versions, activeVersionId: versions[0]?.id };
+    }
+    if (normalized.content && !normalized.content.layout) {
+        normalized = { ...normalized, content: { ...normalized.content, layout: 'bullets' } };
+    }
+    return normalized;
+};
+
+/**
+ * Brings a stored project up to the shape the current UI expects.
+ * A deck saved mid-request can't resume its in-flight requests, so a slide that was
+ * generating (a render, retry or edit, at any step) goes back to its last image, or is
+ * surfaced as failed, instead of spinning forever. Slides still waiting in a render run
+ * fail too; pending slides outside a run (e.g. imported ones) stay pending.
+ */
+export const normalizeProject = (project: DeckProject): DeckProject => {
+    const wasRunning = project.step === 'planning' || project.step === 'generating';
+    return {
+        ...project,
+        step: project.step === 'planning' ? 'input' : project.step === 'generating' ? 'preview' : project.step,
+        slides: project.slides.map(slide => {
+            const restored = normalizeSlide(slide);
+            if (restored.status === 'generating') return { ...restored, status: restored.imageData ? 'done' : 'error' };
+            return wasRunning && restored.status === 'pending' ? { ...restored, status: 'error' } : restored;
+        }),
+    };
+};
+
+export class ProjectStore {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    // Thumbnails are derived from full-size images, so cache them per project
+    // to avoid re-encoding on every autosave.
+    private thumbnailCache = new Map<string, { source: string; thumbnail: string }>();
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                        db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+                        db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    /**
+     * Lists saved projects, most recently edited first.
+     */
+    async list(): Promise<ProjectSummary[]> {
+        const db = await this.open();
+        const tx = db.transaction(SUMMARIES_STORE, 'readonly');
+        const summaries = await requestToPromise<ProjectSummary[]>(tx.objectStore(SUMMARIES_STORE).getAll());
+        return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    async get(id: string): Promise<DeckProject | null> {
+        const db = await this.open();
+        const tx = db.transaction(PROJECTS_STORE, 'readonly');
+        const project = await requestToPromise<DeckProject | undefined>(tx.objectStore(PROJECTS_STORE).get(id));
+        return project ? normalizeProject(project) : null;
+    }
+
+    /**
+     * Writes the full project and its list summary in a single transaction.
+     */
+    async save(project: DeckProject): Promise<void> {
+        const summary: ProjectSummary = {
+            id: project.id,
+            name: project.name,
+            createdAt: project.createdAt,
+            updatedAt: project.updatedAt,
+            slideTotal: project.slides.length,
+            thumbnail: await this.thumbnailFor(project),
+        };
+
+        const db = await this.open();
+        const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+        tx.objectStore(PROJECTS_STORE).put(project);
+        tx.objectStore(SUMMARIES_STORE).put(summary);
+        await transactionDone(tx);
+    }
+
+    async duplicate(id: string): Promise<DeckProject | null> {
+        const original = await this.get(id);
+        if (!original) return null;
+
+        const now = Date.now();
+        const copy: DeckProject = {
+            ...original,
+            id: crypto.randomUUID(),
+            name: `${original.name} (copy)`,
+            createdAt: now,
+            updatedAt: now,
+        };
+        await this.save(copy);
+        return copy;
+    }
+
+    async rename(id: string, name: string): Promise<void> {
+        const project = await this.get(id);
+        if (!project) return;
+        await this.save({ ...project, name, updatedAt: Date.now() });
+    }
+
+    async delete(id: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+        tx.objectStore(PROJECTS_STORE).delete(id);
+        tx.objectStore(SUMMARIES_STORE).delete(id);
+        await transactionDone(tx);
+        this.thumbnailCache.delete(id);
+    }
+
+    private async thumbnailFor(project: DeckProject): Promise<string | undefined> {
+        const source = project.slides.find(s => s.imageData)?.imageData;
+        if (!source) return undefined;
+
+        const cached = this.thumbnailCache.get(project.id);
+        if (cached && cached.source === source) return cached.thumbnail;
+
+        try {
+            const thumbnail = await createThumbnail(source);
+            this.thumbnailCache.set(project.id, { source, thumbnail });
+            return thumbnail;
+        } catch (error) {
+            console.warn("Failed to create project thumbnail", error);
+            return undefined;
+        }
+    }
+}
+
+export const projectStore = new ProjectStore();
@@ -0,0 +1,17 @@
+import { geminiService } from '../gemini';
+import type { ImageProvider } from './types';
+
+export const geminiImageProvider: ImageProvider = {
+    id: 'gemini',
+    label: 'Gemini 3',
+    capabilities: {
+        referenceImages: true,
+        sizes: ['1K', '2K', '4K'],
+        maxPromptLength: 30000,
+        // No mask input; the edit area is described and the result composited through the mask
+        maskedEdits: false,
+    },
+    defaultLimits: { concurrency: 3, requestsPerMinute: 10 },
+    generate: ({ prompt, referenceImages, signal }) => geminiService.generateSlide(prompt, referenceImages, signal),
+    edit: ({ image, instruction, signal }) => geminiService.editSlide(image, instruction, signal),
+};
@@ -0,0 +1,26 @@
+import { geminiImageProvider } from './gemini';
+import { LocalHttpImageProvider } from './localHttp';
+import { openAIImageProvider } from './openai';
+import { registerImageProvider } from './registry';
+
+export { defaultProviderLimits, getImageProvider, hasImageProvider, listImageProviders, registerImageProvider } from './registry';
+export { LocalHttpImageProvider, type LocalHttpOptions } from './localHttp';
+export type { EditImageRequest, GenerateImageRequest, ImageProvider, ImageProviderCapabilities } from './types';
+
+export const DEFAULT_IMAGE_PROVIDER = 'gemini';
+
+// Built-in providers. Additional providers can be registered from anywhere
+// before the UI renders, e.g. in main.tsx.
+registerImageProvider(geminiImageProvider);
+registerImageProvider(openAIImageProvider);
+
+const LOCAL_IMAGE_URL = import.meta.env.VITE_LOCAL_IMAGE_URL || '';
+if (LOCAL_IMAGE_URL) {
+    registerImageProvider(new LocalHttpImageProvider({
+        baseUrl: LOCAL_IMAGE_URL,
+        label: import.meta.env.VITE_LOCAL_IMAGE_LABEL || undefined,
+        width: Number(import.meta.env.VITE_LOCAL_IMAGE_WIDTH) || undefined,
+        height: Number(import.meta.env.VITE_LOCAL_IMAGE_HEIGHT) || undefined,
+        steps: Number(import.meta.env.VITE_LOCAL_IMAGE_STEPS) || undefined,
+    }));
+}
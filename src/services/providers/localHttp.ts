@@ -0,0 +1,100 @@
+import { kindFromStatus, SlideGenerationError } from '../errors';
+import { SLIDE_REQUEST_TIMEOUT_MS, withAbortTimeout } from '../requestControl';
+import type { EditImageRequest, GenerateImageRequest, ImageProvider, ImageProviderCapabilities } from './types';
+import type { ProviderLimits } from '../generationQueue';
+
+export interface LocalHttpOptions {
+    id?: string;
+    label?: string;
+    baseUrl: string;
+    width?: number;
+    height?: number;
+    steps?: number;
+    /** How far img2img may move away from the current slide (0-1). */
+    denoisingStrength?: number;
+    negativePrompt?: string;
+    timeoutMs?: number;
+}
+
+/**
+ * Renders through a self-hosted Stable Diffusion server speaking the
+ * AUTOMATIC1111 web API (`/sdapi/v1/txt2img` and `/sdapi/v1/img2img`), which
+ * Forge, SD.Next and ComfyUI API bridges also expose.
+ */
+export class LocalHttpImageProvider implements ImageProvider {
+    readonly id: string;
+    readonly label: string;
+    readonly capabilities: ImageProviderCapabilities;
+    // Local GPUs render one image at a time; there is no remote quota to respect
+    readonly defaultLimits: ProviderLimits = { concurrency: 1, requestsPerMinute: 60 };
+    private options: Required<LocalHttpOptions>;
+
+    constructor(options: LocalHttpOptions) {
+        this.options = {
+            id: options.id ?? 'local',
+            label: options.label ?? 'Local SD',
+            baseUrl: options.baseUrl.replace(/\/+$/, ''),
+            width: options.width ?? 1344,
+            height: options.height ?? 768,
+            steps: options.steps ?? 30,
+            denoisingStrength: options.denoisingStrength ?? 0.45,
+            negativePrompt: options.negativePrompt ?? 'blurry, distorted text, watermark',
+            timeoutMs: options.timeoutMs ?? SLIDE_REQUEST_TIMEOUT_MS * 4,
+        };
+        this.id = this.options.id;
+        this.label = this.options.label;
+        this.capabilities = {
+            referenceImages: false,
+            sizes: [`${this.options.width}x${this.options.height}`],
+            maxPromptLength: 4000,
+            maskedEdits: true,
+        };
+    }
+
+    async generate({ prompt, signal }: GenerateImageRequest): Promise<string> {
+        return this.request('/sdapi/v1/txt2img', {
+            prompt,
+            negative_prompt: this.options.negativePrompt,
+            width: this.options.width,
+            height: this.options.height,
+            steps: this.options.steps,
+        }, signal);
+    }
+
+    async edit({ image, instruction, mask, signal }: EditImageRequest): Promise<string> {
+        // A mask turns img2img into inpainting: white (opaque) areas are redrawn, starting from the original
+        const inpaint = mask ? { mask: mask.split(',')[1] || mask, inpainting_fill: 1, mask_blur: 4 } : {};
+        return this.request('/sdapi/v1/img2img', {
+            init_images: [image.split(',')[1] || image],
+            ...inpaint,
+            prompt: instruction,
+            negative_prompt: this.options.negativePrompt,
+            width: this.options.width,
+            height: this.options.height,
+            steps: this.options.steps,
+            denoising_strength: this.options.denoisingStrength,
+        }, signal);
+    }
+
+    private async request(path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<string> {
+        return withAbortTimeout(async (requestSignal) => {
+            const response = await fetch(`${this.options.baseUrl}${path}`, {
+                method: 'POST',
+                signal: requestSignal,
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+
+            if (!response.ok) {
+                throw new SlideGenerationError(kindFromStatus(response.status), `${this.label} error: ${response.status} ${response.statusText}`);
+            }
+
+            const data = await response.json();
+            const image = data.images?.[0];
+            if (!image) {
+                throw new SlideGenerationError('no_image', `No image returned by ${this.label}`);
+            }
+            return image.startsWith('data:') ? image : `data:image/png;base64,${image}`;
+        }, signal, this.options.timeoutMs);
+    }
+}
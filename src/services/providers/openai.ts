@@ -0,0 +1,17 @@
+import { openAIService } from '../openai';
+import type { ImageProvider } from './types';
+
+export const openAIImageProvider: ImageProvider = {
+    id: 'openai',
+    label: 'OpenAI',
+    capabilities: {
+        // The images endpoint can't see refs; the brand kit in the prompt carries the style
+        referenceImages: false,
+        sizes: ['1536x1024', '1024x1024', '1024x1536'],
+        maxPromptLength: 32000,
+        maskedEdits: true,
+    },
+    defaultLimits: { concurrency: 2, requestsPerMinute: 5 },
+    generate: ({ prompt, signal }) => openAIService.generateSlide(prompt, signal),
+    edit: ({ image, instruction, mask, signal }) => openAIService.editSlide(image, instruction, signal, mask),
+};
@@ -0,0 +1,27 @@
+import type { ProviderLimits } from '../generationQueue';
+import type { ImageProvider } from './types';
+
+const providers = new Map<string, ImageProvider>();
+
+/**
+ * Makes a provider available to the image service and the model picker.
+ * Registering an existing id replaces it, so a team can override a built-in.
+ */
+export const registerImageProvider = (provider: ImageProvider): void => {
+    providers.set(provider.id, provider);
+};
+
+export const getImageProvider = (id: string): ImageProvider => {
+    const provider = providers.get(id);
+    if (!provider) {
+        throw new Error(`Unknown image provider "${id}". Registered: ${[...providers.keys()].join(', ')}`);
+    }
+    return provider;
+};
+
+export const hasImageProvider = (id: string): boolean => providers.has(id);
+
+export const listImageProviders = (): ImageProvider[] => [...providers.values()];
+
+export const defaultProviderLimits = (): Record<string, ProviderLimits> =>
+    Object.fromEntries(listImageProviders().map(provider => [provider.id, provider.defaultLimits]));
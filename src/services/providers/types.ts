@@ -0,0 +1,40 @@
+import type { ProviderLimits } from '../generationQueue';
+
+export interface ImageProviderCapabilities {
+    /** Whether style reference images actually condition the render (otherwise they are only hinted at in text). */
+    referenceImages: boolean;
+    /** Output sizes the provider can produce; `size` in its config is one of these. */
+    sizes: string[];
+    /** Prompts longer than this are truncated before sending. */
+    maxPromptLength: number;
+    /** Whether edits take a mask natively (otherwise the edit area is only described in the instruction). */
+    maskedEdits: boolean;
+}
+
+export interface GenerateImageRequest {
+    prompt: string;
+    referenceImages: File[];
+    signal?: AbortSignal;
+}
+
+export interface EditImageRequest {
+    image: string; // data URL
+    instruction: string;
+    /** PNG data URL the size of `image`: opaque where it may change, transparent elsewhere. Only sent when `maskedEdits`. */
+    mask?: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * A backend that can render and edit slide images. Implementations return
+ * images as data URLs and throw SlideGenerationError for classified failures.
+ */
+export interface ImageProvider {
+    id: string;
+    label: string;
+    capabilities: ImageProviderCapabilities;
+    /** Starting concurrency/rate limits; users can tune concurrency in the UI. */
+    defaultLimits: ProviderLimits;
+    generate(request: GenerateImageRequest): Promise<string>;
+    edit(request: EditImageRequest): Promise<string>;
+}
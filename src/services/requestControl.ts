@@ -0,0 +1,47 @@
+import { SlideGenerationError } from './errors';
+
+export const SLIDE_REQUEST_TIMEOUT_MS = 45000;
+
+/**
+ * Thrown when a request was aborted on purpose (run or slide cancelled by the user),
+ * as opposed to failing or timing out.
+ */
+export class RequestCancelledError extends Error {
+    constructor(message: string = "Request cancelled") {
+        super(message);
+        this.name = 'RequestCancelledError';
+    }
+}
+
+/**
+ * Runs an abortable request with a timeout. Unlike racing against a timer, the
+ * timeout and the caller's signal both abort the underlying request, so nothing
+ * is left running in the background.
+ */
+export const withAbortTimeout = async <T>(
+    run: (signal: AbortSignal) => Promise<T>,
+    signal: AbortSignal | undefined,
+    timeoutMs: number = SLIDE_REQUEST_TIMEOUT_MS
+): Promise<T> => {
+    if (signal?.aborted) throw new RequestCancelledError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+        return await run(controller.signal);
+    } catch (error) {
+        if (signal?.aborted) throw new RequestCancelledError();
+        if (timedOut) throw new SlideGenerationError('timeout', "Request timed out");
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
@@ -0,0 +1,52 @@
+import { classifyError, type SlideGenerationError } from './errors';
+import { RequestCancelledError } from './requestControl';
+
+export interface RetryOptions {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+    /** Called before each retry with the error that caused it. */
+    onRetry?: (error: SlideGenerationError, attempt: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(new RequestCancelledError());
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new RequestCancelledError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Runs a provider request, retrying transient failures (timeouts, rate limits,
+ * 5xx, network) with exponential backoff and jitter. Permanent failures and the
+ * final attempt's failure are rethrown as a classified SlideGenerationError.
+ */
+export const withRetry = async <T>(run: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { maxAttempts = 3, baseDelayMs = 2000, maxDelayMs = 30000, signal, onRetry } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await run();
+        } catch (error) {
+            if (error instanceof RequestCancelledError || signal?.aborted) throw error;
+
+            const classified = classifyError(error);
+            if (!classified.retryable || attempt >= maxAttempts) throw classified;
+            // e.g. a daily quota: waiting it out in the background would just look like a hang
+            if ((classified.retryAfterMs ?? 0) > maxDelayMs) throw classified;
+
+            const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+            const delay = Math.max(classified.retryAfterMs ?? 0, backoff * (0.75 + Math.random() * 0.5));
+            onRetry?.(classified, attempt + 1);
+            await sleep(delay, signal);
+        }
+    }
+};
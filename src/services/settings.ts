@@ -0,0 +1,22 @@
+const SETTINGS_PREFIX = 'prodeck:';
+
+/**
+ * Reads a user preference from localStorage, falling back when it is missing or unreadable.
+ * Preferences apply across projects; anything deck-specific belongs in the project store.
+ */
+export const loadSetting = <T extends object>(key: string, fallback: T): T => {
+    try {
+        const raw = localStorage.getItem(SETTINGS_PREFIX + key);
+        return raw === null ? fallback : { ...fallback, ...JSON.parse(raw) };
+    } catch {
+        return fallback;
+    }
+};
+
+export const saveSetting = <T>(key: string, value: T): void => {
+    try {
+        localStorage.setItem(SETTINGS_PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+        console.warn(`Failed to save setting "${key}"`, error);
+    }
+};
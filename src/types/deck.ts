@@ -0,0 +1,225 @@
+import type { SlideErrorKind } from '../services/errors';
+import type { ImageModel } from '../services/imageService';
+
+export type SlideStatus = 'pending' | 'generating' | 'done' | 'error' | 'cancelled';
+
+export type SlideVersionSource = 'generate' | 'edit' | 'import';
+
+/**
+ * One image a slide has had. Versions are never modified or removed once created;
+ * restoring an older one just makes it active again.
+ */
+export interface SlideVersion {
+    id: string;
+    imageData: string; // base64
+    source: SlideVersionSource;
+    instruction?: string; // visual prompt for generations, user instruction for edits
+    /** Bounds of the area a masked edit was limited to. */
+    editArea?: SlideRegion;
+    model?: ImageModel;
+    createdAt: number;
+}
+
+export interface SlideError {
+    kind: SlideErrorKind;
+    message: string;
+}
+
+/**
+ * A rectangle on the slide, in fractions (0-1) of the slide's width and height.
+ */
+export interface SlideRegion {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+export type SlideLayout =
+    | 'title' | 'section' | 'bullets' | 'two-column' | 'chart' | 'table' | 'image' | 'quote' | 'kpi-grid' | 'closing';
+
+/**
+ * A headline number on a KPI slide, e.g. { value: '42%', label: 'Repeat customers' }.
+ */
+export interface SlideMetric {
+    value: string;
+    label: string;
+}
+
+export type ChartType = 'bar' | 'line' | 'pie';
+
+/**
+ * One series of numbers to plot, with a label per value.
+ */
+export interface DataSeries {
+    name: string;
+    labels: string[];
+    values: number[];
+}
+
+/**
+ * Keeps only the rows of a CSV file whose `column` holds `equals`.
+ */
+export interface DataFilter {
+    column: string;
+    equals: string;
+}
+
+/**
+ * Columns of a CSV context file a chart is bound to. When set, the series are
+ * read from the file rather than taken from the planner.
+ */
+export interface ChartSource {
+    file: string;
+    labelColumn: string;
+    valueColumns: string[];
+    filter?: DataFilter;
+}
+
+export interface SlideChart {
+    type: ChartType;
+    series: DataSeries[];
+    source?: ChartSource;
+}
+
+export interface TableSource {
+    file: string;
+    columns: string[];
+    filter?: DataFilter;
+}
+
+export interface SlideTable {
+    columns: string[];
+    rows: string[][];
+    source?: TableSource;
+}
+
+/**
+ * What is on the slide, field by field. The image prompt is composed from these,
+ * and export rebuilds them as real text instead of pixels. Charts and tables are
+ * never drawn by the image model: they are rendered on top of its image.
+ */
+export interface SlideContent {
+    layout: SlideLayout;
+    title: string; // the slide's heading
+    subtitle?: string;
+    bullets: string[];
+    body?: string;
+    chart?: SlideChart;
+    table?: SlideTable;
+    metrics?: SlideMetric[];
+    imageDescription?: string; // the photo or illustration on the slide, if any
+    // Set by planners before layout templates existed; the layout's template decides otherwise
+    titleRegion?: SlideRegion;
+    bodyRegion?: SlideRegion;
+}
+
+/**
+ * A picture that was on an imported slide, kept with where it sat.
+ */
+export interface SlideMedia {
+    name: string;
+    imageData: string; // data URL
+    region: SlideRegion;
+    description?: string; // the picture's alt text
+}
+
+/**
+ * The slide's image with all text removed, used behind native text boxes in editable export.
+ * Tied to the version it was derived from so it goes stale when the slide changes.
+ */
+export interface SlideBackground {
+    versionId: string;
+    imageData: string; // base64
+}
+
+export type ConsistencyIssueKind = 'background' | 'palette' | 'layout' | 'logo';
+
+export interface ConsistencyIssue {
+    kind: ConsistencyIssueKind;
+    message: string;
+    fix: string; // prompt instruction used when regenerating to match the deck
+}
+
+/**
+ * Result of the deck consistency check for one version of a slide.
+ */
+export interface SlideConsistency {
+    versionId: string;
+    issues: ConsistencyIssue[];
+}
+
+/**
+ * One word of the planned on-slide text, and whether OCR found it on the image.
+ * `found` is what was read instead, when the word looks misspelled rather than missing.
+ */
+export interface FidelityWord {
+    text: string;
+    ok: boolean;
+    found?: string;
+}
+
+/**
+ * How faithfully a slide version's image reproduces the planned text.
+ */
+export interface TextFidelity {
+    versionId: string;
+    score: number; // 0-1, share of planned words found
+    lines: FidelityWord[][]; // planned text, line by line
+}
+
+export interface Slide {
+    id: string; // stable across reordering, unlike slideNumber
+    slideNumber: number;
+    title: string;
+    visualPrompt: string; // art direction: background, composition, styling; the text comes from content
+    imageData?: string; // base64, always the active version's image
+    status: SlideStatus;
+    versions: SlideVersion[];
+    activeVersionId?: string;
+    error?: SlideError; // why the last generation or edit failed, cleared on success
+    content?: SlideContent;
+    background?: SlideBackground;
+    speakerNotes?: string;
+    media?: SlideMedia[]; // pictures from the imported original, if any
+    consistency?: SlideConsistency;
+    textFidelity?: TextFidelity;
+    /** Versions from the last multi-variant render, until the author picks one of them. */
+    variantIds?: string[];
+}
+
+/**
+ * How many images a slide render rolls, and on which providers, so the author can
+ * pick the best of them.
+ */
+export interface VariantSettings {
+    /** 1 renders a single image. */
+    count: number;
+    /** Image providers the variants take turns on; empty uses the deck's image model. */
+    providers: ImageModel[];
+}
+
+export type SlideCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type TitlePlacement = 'top-left' | 'top-center' | 'middle-left' | 'center';
+
+export interface BrandColor {
+    hex: string; // '#RRGGBB'
+    role: string; // e.g. 'primary', 'background', 'accent'
+}
+
+/**
+ * The deck's visual identity, extracted once from the reference images and then
+ * edited by the user. Every plan and render prompt is built from it, so slides
+ * follow the same rules instead of each re-guessing them from the refs.
+ */
+export interface BrandKit {
+    palette: BrandColor[];
+    fonts: { heading: string; body: string };
+    logo?: { imageData: string; placement: SlideCorner }; // imageData is a data URL
+    margin: number; // minimum distance of content from the slide edges, as a fraction of slide width
+    titlePlacement: TitlePlacement;
+    styleNotes?: string;
+}
+
+export type DeckStep = 'input' | 'planning' | 'outline' | 'generating' | 'preview';
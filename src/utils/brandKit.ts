@@ -0,0 +1,21 @@
+import type { BrandKit } from '../types/deck';
+
+/**
+ * The brand kit as prompt text. Every plan and render prompt includes it verbatim,
+ * so all providers get the same rules. The logo itself is stamped onto renders
+ * afterwards, so models are told to keep its corner clear rather than draw one.
+ */
+export const describeBrandKit = (kit: BrandKit): string => {
+    const lines = [
+        'BRAND KIT (follow exactly, it overrides any style guess from the reference images):',
+        kit.palette.length > 0 && `- Colors: use only this palette: ${kit.palette.map(c => `${c.hex} (${c.role})`).join(', ')}.`,
+        `- Typography: headings in "${kit.fonts.heading}", body text in "${kit.fonts.body}".`,
+        `- Margins: keep all text and key content at least ${Math.round(kit.margin * 100)}% of the slide width away from every edge.`,
+        `- Title placement: ${kit.titlePlacement.replace('-', ' ')}.`,
+        kit.logo
+            ? `- Logo: do not draw any logo or brand mark; leave the ${kit.logo.placement.replace('-', ' ')} corner empty, the logo is added there afterwards.`
+            : '- Logo: do not invent a logo.',
+        kit.styleNotes && `- Style: ${kit.styleNotes}`,
+    ];
+    return lines.filter(Boolean).join('\n');
+};
@@ -0,0 +1,190 @@
+import type { BrandKit, ConsistencyIssue, SlideCorner } from '../types/deck';
+import { colorDistance, dominantColors, hexToRgb, loadImage, logoRect, readPixels, toHex, type RGB } from './image';
+
+export interface ConsistencyInput {
+    id: string;
+    imageData: string;
+}
+
+interface Signature {
+    border: RGB; // average color along the edges, i.e. the background tone
+    colors: { color: RGB; share: number }[];
+    layout: number[]; // luminance contrast per grid cell, roughly where content sits
+}
+
+// 16:9 sample, split into a 4x3 grid of 16x12 cells
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 36;
+const GRID_COLUMNS = 4;
+const GRID_ROWS = 3;
+const BORDER = 3;
+
+// Outlier thresholds, tuned loosely so only clearly off slides get flagged
+const BACKGROUND_DISTANCE = 60;
+const PALETTE_DISTANCE = 64;
+const MIN_PALETTE_SHARE = 0.35;
+const MIN_LAYOUT_DISTANCE = 0.9;
+const LOGO_MATCH = 0.5;
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const luminance = (data: Uint8ClampedArray, i: number) => 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+
+const analyze = async (imageData: string): Promise<Signature> => {
+    const data = await readPixels(imageData, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+
+    const border = { r: 0, g: 0, b: 0 };
+    let borderCount = 0;
+    const cellWidth = SAMPLE_WIDTH / GRID_COLUMNS;
+    const cellHeight = SAMPLE_HEIGHT / GRID_ROWS;
+    const cells = Array.from({ length: GRID_COLUMNS * GRID_ROWS }, () => ({ sum: 0, sumSq: 0, n: 0 }));
+
+    for (let y = 0; y < SAMPLE_HEIGHT; y++) {
+        for (let x = 0; x < SAMPLE_WIDTH; x++) {
+            const i = (y * SAMPLE_WIDTH + x) * 4;
+            if (x < BORDER || y < BORDER || x >= SAMPLE_WIDTH - BORDER || y >= SAMPLE_HEIGHT - BORDER) {
+                border.r += data[i];
+                border.g += data[i + 1];
+                border.b += data[i + 2];
+                borderCount++;
+            }
+            const cell = cells[Math.floor(y / cellHeight) * GRID_COLUMNS + Math.floor(x / cellWidth)];
+            const l = luminance(data, i);
+            cell.sum += l;
+            cell.sumSq += l * l;
+            cell.n++;
+        }
+    }
+
+    return {
+        border: { r: border.r / borderCount, g: border.g / borderCount, b: border.b / borderCount },
+        colors: dominantColors([data], 6),
+        // Standard deviation per cell: flat background is ~0, text and imagery are high
+        layout: cells.map(({ sum, sumSq, n }) => Math.sqrt(Math.max(0, sumSq / n - (sum / n) ** 2)) / 128),
+    };
+};
+
+/**
+ * Whether the logo is where the brand kit puts it, by correlating the logo's
+ * opaque pixels with the same spot on the slide.
+ */
+const hasLogo = async (imageData: string, logo: string, corner: SlideCorner, margin: number): Promise<boolean> => {
+    const [slide, mark] = await Promise.all([loadImage(imageData), loadImage(logo)]);
+    const rect = logoRect(slide.naturalWidth, slide.naturalHeight, mark.naturalWidth, mark.naturalHeight, corner, margin);
+    const width = 32;
+    const height = Math.max(1, Math.round((32 * rect.h) / rect.w));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return true;
+    ctx.drawImage(mark, 0, 0, width, height);
+    const expected = ctx.getImageData(0, 0, width, height).data;
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(slide, rect.x, rect.y, rect.w, rect.h, 0, 0, width, height);
+    const actual = ctx.getImageData(0, 0, width, height).data;
+
+    const a: number[] = [];
+    const b: number[] = [];
+    for (let i = 0; i < expected.length; i += 4) {
+        if (expected[i + 3] < 128) continue;
+        a.push(luminance(expected, i));
+        b.push(luminance(actual, i));
+    }
+    if (a.length === 0) return true;
+
+    const meanA = a.reduce((sum, v) => sum + v, 0) / a.length;
+    const meanB = b.reduce((sum, v) => sum + v, 0) / b.length;
+    let cov = 0;
+    let varA = 0;
+    let varB = 0;
+    for (let i = 0; i < a.length; i++) {
+        cov += (a[i] - meanA) * (b[i] - meanB);
+        varA += (a[i] - meanA) ** 2;
+        varB += (b[i] - meanB) ** 2;
+    }
+    // A flat single-color logo has no pattern to correlate; compare its tone instead
+    if (varA < 1e-6 || varB < 1e-6) return Math.abs(meanA - meanB) < 40;
+    return cov / Math.sqrt(varA * varB) > LOGO_MATCH;
+};
+
+/**
+ * Compares every slide against the rest of the deck and the brand kit: background
+ * tone, use of the brand palette, layout, and logo. Deck-relative checks need at
+ * least three slides to say what "the rest of the deck" looks like.
+ * Returns the issues found per slide id.
+ */
+export const checkConsistency = async (
+    slides: ConsistencyInput[],
+    brandKit?: BrandKit
+): Promise<Record<string, ConsistencyIssue[]>> => {
+    const signatures = await Promise.all(slides.map(slide => analyze(slide.imageData)));
+    const palette = brandKit?.palette.map(c => hexToRgb(c.hex)) ?? [];
+    const compareToDeck = slides.length >= 3;
+
+    const medianBorder = {
+        r: median(signatures.map(s => s.border.r)),
+        g: median(signatures.map(s => s.border.g)),
+        b: median(signatures.map(s => s.border.b)),
+    };
+    const paletteShares = signatures.map(s => s.colors
+        .filter(({ color }) => palette.some(p => colorDistance(p, color) <= PALETTE_DISTANCE))
+        .reduce((sum, { share }) => sum + share, 0));
+    const nearestLayouts = signatures.map((s, i) => Math.min(...signatures
+        .filter((_, j) => j !== i)
+        .map(other => Math.hypot(...s.layout.map((v, k) => v - other.layout[k])))));
+    const typicalLayoutDistance = compareToDeck ? median(nearestLayouts) : 0;
+
+    const results: Record<string, ConsistencyIssue[]> = {};
+    await Promise.all(slides.map(async (slide, i) => {
+        const issues: ConsistencyIssue[] = [];
+
+        if (compareToDeck && colorDistance(signatures[i].border, medianBorder) > BACKGROUND_DISTANCE) {
+            issues.push({
+                kind: 'background',
+                message: 'Background differs from the rest of the deck',
+                fix: `Use the same background as the rest of the deck, predominantly ${toHex(medianBorder)}.`,
+            });
+        }
+
+        if (palette.length > 0 && paletteShares[i] < MIN_PALETTE_SHARE && (!compareToDeck || paletteShares[i] < median(paletteShares) - 0.25)) {
+            issues.push({
+                kind: 'palette',
+                message: 'Colors stray from the brand palette',
+                fix: `Use only the brand palette: ${brandKit?.palette.map(c => c.hex).join(', ')}.`,
+            });
+        }
+
+        if (compareToDeck && nearestLayouts[i] > Math.max(MIN_LAYOUT_DISTANCE, typicalLayoutDistance * 2.5)) {
+            issues.push({
+                kind: 'layout',
+                message: 'Layout unlike any other slide',
+                fix: brandKit
+                    ? `Follow the same layout as the other slides: title ${brandKit.titlePlacement.replace('-', ' ')}, ${Math.round(brandKit.margin * 100)}% margins.`
+                    : 'Follow the same layout grid, title position and margins as the other slides.',
+            });
+        }
+
+        if (brandKit?.logo && !(await hasLogo(slide.imageData, brandKit.logo.imageData, brandKit.logo.placement, brandKit.margin))) {
+            issues.push({
+                kind: 'logo',
+                message: 'Logo missing',
+                fix: `Leave the ${brandKit.logo.placement.replace('-', ' ')} corner empty for the logo.`,
+            });
+        }
+
+        results[slide.id] = issues;
+    }));
+    return results;
+};
+
+/**
+ * The slide's image prompt with the fixes for its consistency issues appended.
+ */
+export const matchDeckPrompt = (prompt: string, issues: ConsistencyIssue[]) =>
+    `${prompt}\n\nMATCH THE REST OF THE DECK:\n${issues.map(issue => `- ${issue.fix}`).join('\n')}`;
@@ -0,0 +1,115 @@
+/**
+ * A CSV context file, parsed. `rows` exclude the header row.
+ */
+export interface DataTable {
+    file: string;
+    columns: string[];
+    rows: string[][];
+    /** ';' files come from locales that write decimals with a comma, e.g. "1.200,50". */
+    delimiter: CsvDelimiter;
+}
+
+export type CsvDelimiter = ',' | ';';
+
+export const isCsvFile = (file: File) => file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+
+/**
+ * Semicolon-separated files (common in European exports) are told apart by their header.
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+    const headerLine = text.slice(0, text.search(/\r?\n|$/));
+    return headerLine.split(';').length > headerLine.split(',').length ? ';' : ',';
+};
+
+/**
+ * RFC 4180 parsing: quoted fields may hold commas, line breaks and doubled quotes.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const source = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(source);
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+/**
+ * Reads a spreadsheet-formatted number: thousands separators, currency and
+ * percent signs, and accounting-style negatives like "(1,200)". NaN if it isn't one.
+ * With `decimalComma`, the separators swap roles: "1.200,50" is 1200.5.
+ */
+export const parseNumber = (value: string, decimalComma: boolean = false): number => {
+    const trimmed = value.trim();
+    const negative = /^\(.*\)$/.test(trimmed);
+    const stripped = trimmed.replace(/[()$€£¥%\s]/g, '');
+    const cleaned = decimalComma
+        ? stripped.replace(/\.(?=\d{3}(\D|$))/g, '').replace(',', '.')
+        : stripped.replace(/,(?=\d{3}(\D|$))/g, '');
+    if (!/^[-+]?\d*\.?\d+(e[-+]?\d+)?$/i.test(cleaned)) return NaN;
+    return negative ? -Number(cleaned) : Number(cleaned);
+};
+
+/**
+ * Parses the CSV files among the context files. Files that fail to parse are skipped.
+ */
+export const readDataTables = async (files: File[]): Promise<DataTable[]> => {
+    const tables = await Promise.all(files.filter(isCsvFile).map(async (file): Promise<DataTable | null> => {
+        try {
+            const text = (await file.text()).replace(/^\uFEFF/, '');
+            const [header, ...rows] = parseCsv(text);
+            if (!header) return null;
+            return {
+                file: file.name,
+                columns: header.map(column => column.trim()),
+                rows: rows.map(row => row.map(cell => cell.trim())),
+                delimiter: detectDelimiter(text),
+            };
+        } catch (error) {
+            console.warn(`Could not read ${file.name} as CSV`, error);
+            return null;
+        }
+    }));
+    return tables.filter((table): table is DataTable => !!table);
+};
+
+/**
+ * A CSV file as planner context: the raw text, headed by its columns so charts and
+ * tables can be bound to them by name.
+ */
+export const csvContextText = (file: string, text: string): string => {
+    const [header = [], ...rows] = parseCsv(text);
+    return `[FILE: ${file}] (CSV data, ${rows.length} rows; columns: ${header.map(c => `"${c.trim()}"`).join(', ')})\n${text}\n[END FILE]`;
+};
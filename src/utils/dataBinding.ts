@@ -0,0 +1,84 @@
+import type { DataFilter, SlideChart, SlideContent, SlideTable } from '../types/deck';
+import { parseNumber, type DataTable } from './csv';
+
+// More than this stops being readable on a slide
+const MAX_CHART_POINTS = 24;
+const MAX_TABLE_ROWS = 12;
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+const findTable = (tables: DataTable[], file: string) =>
+    tables.find(table => normalize(table.file) === normalize(file));
+
+const columnIndex = (table: DataTable, column: string) =>
+    table.columns.findIndex(c => normalize(c) === normalize(column));
+
+const filteredRows = (table: DataTable, filter?: DataFilter): string[][] | null => {
+    if (!filter) return table.rows;
+    const index = columnIndex(table, filter.column);
+    if (index === -1) return null;
+    return table.rows.filter(row => normalize(row[index] ?? '') === normalize(filter.equals));
+};
+
+const bindChart = (chart: SlideChart, tables: DataTable[]): SlideChart => {
+    const { source } = chart;
+    const table = source && findTable(tables, source.file);
+    if (!source || !table) return chart;
+
+    const labelIndex = columnIndex(table, source.labelColumn);
+    const valueIndexes = source.valueColumns.map(column => columnIndex(table, column));
+    const rows = filteredRows(table, source.filter);
+    if (labelIndex === -1 || valueIndexes.includes(-1) || !rows) {
+        console.warn(`Chart source ${source.file} names columns that aren't in the file; keeping the planned values`);
+        return chart;
+    }
+
+    // Only rows where every bound column holds a number can be plotted
+    const decimalComma = table.delimiter === ';';
+    const points = rows
+        .map(row => ({ label: row[labelIndex] ?? '', values: valueIndexes.map(i => parseNumber(row[i] ?? '', decimalComma)) }))
+        .filter(point => point.values.every(Number.isFinite))
+        .slice(0, MAX_CHART_POINTS);
+    if (points.length === 0) {
+        console.warn(`Chart source ${source.file} has no rows with numbers in ${source.valueColumns.join(', ')}; keeping the planned values`);
+        return chart;
+    }
+
+    return {
+        ...chart,
+        series: valueIndexes.map((index, i) => ({
+            name: table.columns[index],
+            labels: points.map(point => point.label),
+            values: points.map(point => point.values[i]),
+        })),
+    };
+};
+
+const bindTable = (slideTable: SlideTable, tables: DataTable[]): SlideTable => {
+    const { source } = slideTable;
+    const table = source && findTable(tables, source.file);
+    if (!source || !table) return slideTable;
+
+    const indexes = source.columns.map(column => columnIndex(table, column));
+    const rows = filteredRows(table, source.filter);
+    if (indexes.length === 0 || indexes.includes(-1) || !rows) {
+        console.warn(`Table source ${source.file} names columns that aren't in the file; keeping the planned rows`);
+        return slideTable;
+    }
+
+    return {
+        ...slideTable,
+        columns: indexes.map(i => table.columns[i]),
+        rows: rows.slice(0, MAX_TABLE_ROWS).map(row => indexes.map(i => row[i] ?? '')),
+    };
+};
+
+/**
+ * Replaces the numbers the planner wrote into a slide's chart or table with the
+ * values of the CSV columns it is bound to, so nothing on the slide is made up.
+ */
+export const bindContentData = (content: SlideContent, tables: DataTable[]): SlideContent => ({
+    ...content,
+    chart: content.chart && bindChart(content.chart, tables),
+    table: content.table && bindTable(content.table, tables),
+});
@@ -0,0 +1,198 @@
+import type { BrandKit, SlideChart, SlideContent, SlideTable } from '../types/deck';
+import { dataRegion } from './slideContent';
+
+// The overlay is drawn on a 16:9 canvas of this size and scales with the slide
+const WIDTH = 1600;
+const HEIGHT = 900;
+const PADDING = 28;
+
+const TEXT_COLOR = '#1F1F1F';
+const MUTED_COLOR = '#6B7280';
+const GRID_COLOR = '#E5E7EB';
+const FALLBACK_COLORS = ['#2563EB', '#F59E0B', '#10B981', '#EF4444', '#8B5CF6', '#14B8A6'];
+
+/**
+ * Series colors from the brand palette, skipping the background and text colors,
+ * topped up with neutral defaults when the palette is short.
+ */
+export const chartColors = (brandKit?: BrandKit): string[] => {
+    const brand = (brandKit?.palette ?? [])
+        .filter(c => !/background|text/i.test(c.role))
+        .map(c => c.hex);
+    return [...brand, ...FALLBACK_COLORS.filter(c => !brand.includes(c))];
+};
+
+export const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const truncate = (text: string, maxChars: number) =>
+    text.length > maxChars ? `${text.slice(0, Math.max(1, maxChars - 1))}…` : text;
+
+const formatValue = (value: number) => {
+    const abs = Math.abs(value);
+    if (abs >= 1e9) return `${+(value / 1e9).toFixed(1)}B`;
+    if (abs >= 1e6) return `${+(value / 1e6).toFixed(1)}M`;
+    if (abs >= 1e4) return `${+(value / 1e3).toFixed(1)}k`;
+    return `${+value.toFixed(2)}`;
+};
+
+interface Box {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+const text = (x: number, y: number, content: string, size: number, attrs = '') =>
+    `<text x="${x}" y="${y}" font-size="${size}" ${attrs}>${escapeXml(content)}</text>`;
+
+const legend = (chart: SlideChart, colors: string[], box: Box) => chart.series.map((series, i) => {
+    const x = box.x + i * 220;
+    return `<rect x="${x}" y="${box.y}" width="16" height="16" rx="3" fill="${colors[i % colors.length]}"/>`
+        + text(x + 24, box.y + 14, truncate(series.name, 16), 18, `fill="${MUTED_COLOR}"`);
+}).join('');
+
+/**
+ * Bars (grouped by label) or lines over a shared value axis.
+ */
+const axisChart = (chart: SlideChart, colors: string[], area: Box): string => {
+    const labels = chart.series[0].labels;
+    const values = chart.series.flatMap(s => s.values);
+    const min = Math.min(0, ...values);
+    const max = Math.max(0, ...values);
+    const span = max - min || 1;
+
+    const hasLegend = chart.series.length > 1;
+    const plot: Box = {
+        x: area.x + 80,
+        y: area.y + (hasLegend ? 40 : 10),
+        w: area.w - 90,
+        h: area.h - (hasLegend ? 40 : 10) - 40,
+    };
+    const yFor = (value: number) => plot.y + plot.h - ((value - min) / span) * plot.h;
+    const step = plot.w / labels.length;
+
+    const parts: string[] = [];
+    if (hasLegend) parts.push(legend(chart, colors, { ...area, h: 24 }));
+
+    for (let i = 0; i <= 4; i++) {
+        const value = min + (span * i) / 4;
+        const y = yFor(value);
+        parts.push(`<line x1="${plot.x}" x2="${plot.x + plot.w}" y1="${y}" y2="${y}" stroke="${GRID_COLOR}" stroke-width="1.5"/>`);
+        parts.push(text(plot.x - 12, y + 6, formatValue(value), 18, `fill="${MUTED_COLOR}" text-anchor="end"`));
+    }
+
+    const maxChars = Math.max(3, Math.floor(step / 10));
+    labels.forEach((label, i) => {
+        parts.push(text(plot.x + step * (i + 0.5), plot.y + plot.h + 30, truncate(label, maxChars), 18, `fill="${TEXT_COLOR}" text-anchor="middle"`));
+    });
+
+    if (chart.type === 'line') {
+        chart.series.forEach((series, s) => {
+            const color = colors[s % colors.length];
+            const points = series.values.map((value, i) => `${plot.x + step * (i + 0.5)},${yFor(value)}`);
+            parts.push(`<polyline points="${points.join(' ')}" fill="none" stroke="${color}" stroke-width="4" stroke-linejoin="round"/>`);
+            points.forEach(point => {
+                const [cx, cy] = point.split(',');
+                parts.push(`<circle cx="${cx}" cy="${cy}" r="6" fill="${color}"/>`);
+            });
+        });
+    } else {
+        const groupWidth = step * 0.7;
+        const barWidth = groupWidth / chart.series.length;
+        chart.series.forEach((series, s) => {
+            series.values.forEach((value, i) => {
+                const x = plot.x + step * i + (step - groupWidth) / 2 + barWidth * s;
+                const top = Math.min(yFor(value), yFor(0));
+                const height = Math.abs(yFor(value) - yFor(0));
+                parts.push(`<rect x="${x}" y="${top}" width="${Math.max(1, barWidth - 4)}" height="${height}" rx="3" fill="${colors[s % colors.length]}"/>`);
+            });
+        });
+    }
+    return parts.join('');
+};
+
+/**
+ * A pie of the first series, with a legend of labels and shares beside it.
+ */
+const pieChart = (chart: SlideChart, colors: string[], area: Box): string => {
+    const { labels, values } = chart.series[0];
+    const total = values.reduce((sum, v) => sum + Math.max(0, v), 0) || 1;
+    const radius = Math.min(area.h, area.w * 0.55) / 2 - 10;
+    const cx = area.x + radius + 10;
+    const cy = area.y + area.h / 2;
+
+    const parts: string[] = [];
+    let angle = -Math.PI / 2;
+    values.forEach((value, i) => {
+        const share = Math.max(0, value) / total;
+        const color = colors[i % colors.length];
+        if (share >= 0.9999) {
+            parts.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${color}"/>`);
+        } else if (share > 0) {
+            const end = angle + share * Math.PI * 2;
+            const large = share > 0.5 ? 1 : 0;
+            parts.push(`<path d="M${cx},${cy} L${cx + radius * Math.cos(angle)},${cy + radius * Math.sin(angle)} `
+                + `A${radius},${radius} 0 ${large} 1 ${cx + radius * Math.cos(end)},${cy + radius * Math.sin(end)} Z" fill="${color}"/>`);
+            angle = end;
+        }
+    });
+
+    const legendX = cx + radius + 40;
+    const rowHeight = Math.min(36, area.h / Math.max(1, labels.length));
+    const maxChars = Math.max(6, Math.floor((area.x + area.w - legendX - 40) / 11));
+    labels.forEach((label, i) => {
+        const y = area.y + (area.h - rowHeight * labels.length) / 2 + rowHeight * i;
+        const share = Math.round((Math.max(0, values[i]) / total) * 100);
+        parts.push(`<rect x="${legendX}" y="${y + rowHeight / 2 - 8}" width="16" height="16" rx="3" fill="${colors[i % colors.length]}"/>`);
+        parts.push(text(legendX + 26, y + rowHeight / 2 + 7, `${truncate(label, maxChars)}  ${share}%`, 20, `fill="${TEXT_COLOR}"`));
+    });
+    return parts.join('');
+};
+
+const tableGrid = (table: SlideTable, headerColor: string, area: Box): string => {
+    const rows = [table.columns, ...table.rows];
+    const rowHeight = Math.min(56, area.h / rows.length);
+    const fontSize = Math.max(12, Math.round(rowHeight * 0.42));
+    const columnWidth = area.w / Math.max(1, table.columns.length);
+    const maxChars = Math.max(3, Math.floor(columnWidth / (fontSize * 0.55)));
+
+    return rows.map((row, r) => {
+        const y = area.y + rowHeight * r;
+        const fill = r === 0 ? headerColor : r % 2 === 0 ? '#F3F4F6' : 'none';
+        const cells = row.map((cell, c) => text(
+            area.x + columnWidth * c + 12,
+            y + rowHeight / 2 + fontSize * 0.35,
+            truncate(cell, maxChars),
+            fontSize,
+            r === 0 ? 'fill="#FFFFFF" font-weight="bold"' : `fill="${TEXT_COLOR}"`
+        ));
+        return `<rect x="${area.x}" y="${y}" width="${area.w}" height="${rowHeight}" fill="${fill}"/>${cells.join('')}`;
+    }).join('');
+};
+
+/**
+ * The slide's chart or table as a transparent 16:9 SVG, meant to sit exactly over
+ * the rendered image. Undefined if the slide has no data to show.
+ */
+export const dataVisualSvg = (content: SlideContent, brandKit?: BrandKit): string | undefined => {
+    const chart = content.chart?.series.some(s => s.values.length > 0) ? content.chart : undefined;
+    const table = content.table && content.table.columns.length > 0 ? content.table : undefined;
+    if (!chart && !table) return undefined;
+
+    const region = dataRegion(content);
+    const panel: Box = { x: region.x * WIDTH, y: region.y * HEIGHT, w: region.w * WIDTH, h: region.h * HEIGHT };
+    const area: Box = { x: panel.x + PADDING, y: panel.y + PADDING, w: panel.w - PADDING * 2, h: panel.h - PADDING * 2 };
+    const colors = chartColors(brandKit);
+
+    const body = chart
+        ? chart.type === 'pie' ? pieChart(chart, colors, area) : axisChart(chart, colors, area)
+        : table ? tableGrid(table, colors[0], area) : '';
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="${escapeXml(brandKit ? `${brandKit.fonts.body}, sans-serif` : 'sans-serif')}">`
+        + `<rect x="${panel.x}" y="${panel.y}" width="${panel.w}" height="${panel.h}" rx="18" fill="#FFFFFF" fill-opacity="0.92"/>`
+        + body
+        + '</svg>';
+};
+
+export const svgDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
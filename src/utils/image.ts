@@ -0,0 +1,203 @@
+import type { SlideCorner, SlideRegion } from '../types/deck';
+
+/**
+ * Loads a data URL (or object URL) into an HTMLImageElement.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image'));
+        img.src = src;
+    });
+};
+
+/**
+ * Downscales a slide image to a small JPEG data URL, used for project list previews.
+ */
+export const createThumbnail = async (imageData: string, maxWidth: number = 320): Promise<string> => {
+    const img = await loadImage(imageData);
+    const scale = Math.min(1, maxWidth / img.naturalWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return imageData;
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+/**
+ * Average relative luminance (0 = black, 1 = white) of a region of an image,
+ * with the region given in fractions of the image size.
+ */
+export const averageLuminance = async (
+    imageData: string,
+    region: SlideRegion
+): Promise<number> => {
+    const img = await loadImage(imageData);
+    // A coarse sample is plenty for picking a text color
+    const canvas = document.createElement('canvas');
+    canvas.width = 32;
+    canvas.height = 32;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return 1;
+
+    ctx.drawImage(
+        img,
+        region.x * img.naturalWidth,
+        region.y * img.naturalHeight,
+        Math.max(1, region.w * img.naturalWidth),
+        Math.max(1, region.h * img.naturalHeight),
+        0,
+        0,
+        canvas.width,
+        canvas.height
+    );
+
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let total = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        total += (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+    }
+    return total / (data.length / 4);
+};
+
+export interface RGB {
+    r: number;
+    g: number;
+    b: number;
+}
+
+export const toHex = ({ r, g, b }: RGB) =>
+    '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+export const hexToRgb = (hex: string): RGB => {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+};
+
+export const colorDistance = (a: RGB, b: RGB) => Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+
+/**
+ * RGBA pixels of an image scaled to width x height.
+ */
+export const readPixels = async (source: string, width: number, height: number): Promise<Uint8ClampedArray> => {
+    const img = await loadImage(source);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return new Uint8ClampedArray();
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+/**
+ * Most common colors across sets of RGBA pixels, most frequent first, with the share
+ * of pixels each covers. Colors are bucketed coarsely so anti-aliasing and gradients
+ * don't crowd out distinct hues.
+ */
+export const dominantColors = (pixelSets: Uint8ClampedArray[], count: number): { color: RGB; share: number }[] => {
+    const buckets = new Map<number, { r: number; g: number; b: number; n: number }>();
+    let total = 0;
+    for (const data of pixelSets) {
+        for (let i = 0; i < data.length; i += 4) {
+            if (data[i + 3] < 128) continue; // transparent logo backgrounds aren't brand colors
+            const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+            const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, n: 0 };
+            bucket.r += data[i];
+            bucket.g += data[i + 1];
+            bucket.b += data[i + 2];
+            bucket.n++;
+            buckets.set(key, bucket);
+            total++;
+        }
+    }
+
+    const colors: { color: RGB; share: number }[] = [];
+    const ranked = [...buckets.values()].sort((a, b) => b.n - a.n);
+    for (const { r, g, b, n } of ranked) {
+        const color = { r: r / n, g: g / n, b: b / n };
+        // Near-identical buckets count towards the color they're closest to
+        const similar = colors.find(c => colorDistance(c.color, color) <= 48);
+        if (similar) {
+            similar.share += n / total;
+        } else if (colors.length < count) {
+            colors.push({ color, share: n / total });
+        }
+    }
+    return colors;
+};
+
+/**
+ * Most common colors across a set of images, as hex values.
+ */
+export const extractPalette = async (sources: string[], count: number = 5): Promise<string[]> => {
+    const pixelSets = await Promise.all(sources.map(source => readPixels(source, 64, 64)));
+    return dominantColors(pixelSets, count).map(({ color }) => toHex(color));
+};
+
+/**
+ * Cuts a region (in fractions of the image size) out of an image as a PNG data URL.
+ */
+export const cropImage = async (source: string, region: SlideRegion): Promise<string> => {
+    const img = await loadImage(source);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(region.w * img.naturalWidth));
+    canvas.height = Math.max(1, Math.round(region.h * img.naturalHeight));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return source;
+    ctx.drawImage(img, -region.x * img.naturalWidth, -region.y * img.naturalHeight);
+    return canvas.toDataURL('image/png');
+};
+
+// Largest logo width, as a fraction of the slide width
+const LOGO_MAX_WIDTH = 0.12;
+
+/**
+ * Where a logo of the given size lands on a slide: in one corner, `margin` (fraction
+ * of the slide width) in from the edges, scaled to fit LOGO_MAX_WIDTH. In pixels.
+ */
+export const logoRect = (
+    slideWidth: number,
+    slideHeight: number,
+    logoWidth: number,
+    logoHeight: number,
+    corner: SlideCorner,
+    margin: number
+) => {
+    const scale = Math.min(
+        (LOGO_MAX_WIDTH * slideWidth) / logoWidth,
+        (LOGO_MAX_WIDTH * 0.6 * slideWidth) / logoHeight
+    );
+    const w = logoWidth * scale;
+    const h = logoHeight * scale;
+    const inset = margin * slideWidth;
+    const x = corner.endsWith('left') ? inset : slideWidth - inset - w;
+    const y = corner.startsWith('top') ? inset : slideHeight - inset - h;
+    return { x, y, w, h };
+};
+
+/**
+ * Draws a logo into one corner of a slide image (see logoRect).
+ */
+export const overlayLogo = async (
+    imageData: string,
+    logo: string,
+    corner: SlideCorner,
+    margin: number
+): Promise<string> => {
+    const [slide, mark] = await Promise.all([loadImage(imageData), loadImage(logo)]);
+    const canvas = document.createElement('canvas');
+    canvas.width = slide.naturalWidth;
+    canvas.height = slide.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return imageData;
+
+    ctx.drawImage(slide, 0, 0);
+    const { x, y, w, h } = logoRect(canvas.width, canvas.height, mark.naturalWidth, mark.naturalHeight, corner, margin);
+    ctx.drawImage(mark, x, y, w, h);
+    return canvas.toDataURL('image/png');
+};
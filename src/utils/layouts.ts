@@ -0,0 +1,173 @@
+import type { SlideLayout, SlideRegion } from '../types/deck';
+
+export type LayoutRegionName = 'title' | 'subtitle' | 'body' | 'aside' | 'data' | 'media' | 'metrics';
+
+/**
+ * A named slide layout with fixed regions (fractions of the slide). Planners pick
+ * one per slide; renders are asked to follow its regions, and export builds a
+ * matching slide master from them.
+ */
+export interface LayoutTemplate {
+    id: SlideLayout;
+    label: string;
+    /** One-line description, for planners and image models. */
+    description: string;
+    regions: Partial<Record<LayoutRegionName, SlideRegion>> & { title: SlideRegion };
+}
+
+// Content slides share a header band, so titles line up across the deck
+const HEADER: SlideRegion = { x: 0.06, y: 0.07, w: 0.88, h: 0.15 };
+const CONTENT: SlideRegion = { x: 0.06, y: 0.28, w: 0.88, h: 0.64 };
+
+export const LAYOUT_TEMPLATES: Record<SlideLayout, LayoutTemplate> = {
+    'title': {
+        id: 'title',
+        label: 'Title',
+        description: 'Opening slide: large heading with the subheading beneath it, no bullets.',
+        regions: {
+            title: { x: 0.08, y: 0.3, w: 0.84, h: 0.22 },
+            subtitle: { x: 0.08, y: 0.54, w: 0.84, h: 0.1 },
+        },
+    },
+    'section': {
+        id: 'section',
+        label: 'Section divider',
+        description: 'Section divider: the heading alone, large, with plenty of empty space.',
+        regions: {
+            title: { x: 0.08, y: 0.38, w: 0.84, h: 0.2 },
+            subtitle: { x: 0.08, y: 0.6, w: 0.84, h: 0.08 },
+        },
+    },
+    'bullets': {
+        id: 'bullets',
+        label: 'Bullets',
+        description: 'Heading at the top, bullets below it.',
+        regions: { title: HEADER, body: CONTENT },
+    },
+    'two-column': {
+        id: 'two-column',
+        label: 'Two columns',
+        description: 'Heading at the top; bullets in the left column, body text, an image or data in the right one.',
+        regions: {
+            title: HEADER,
+            body: { x: 0.06, y: 0.28, w: 0.42, h: 0.64 },
+            aside: { x: 0.52, y: 0.28, w: 0.42, h: 0.64 },
+        },
+    },
+    'chart': {
+        id: 'chart',
+        label: 'Chart',
+        description: 'Heading at the top, a chart filling the slide below it.',
+        regions: { title: HEADER, data: CONTENT },
+    },
+    'table': {
+        id: 'table',
+        label: 'Table',
+        description: 'Heading at the top, a table filling the slide below it.',
+        regions: { title: HEADER, data: CONTENT },
+    },
+    'image': {
+        id: 'image',
+        label: 'Image',
+        description: 'A photo or illustration filling the right half, heading and short text on the left.',
+        regions: {
+            title: { x: 0.06, y: 0.1, w: 0.4, h: 0.2 },
+            body: { x: 0.06, y: 0.34, w: 0.4, h: 0.56 },
+            media: { x: 0.52, y: 0, w: 0.48, h: 1 },
+        },
+    },
+    'quote': {
+        id: 'quote',
+        label: 'Quote',
+        description: 'A single large quotation (the heading) as the focal point, the attribution (the subheading) beneath it.',
+        regions: {
+            title: { x: 0.1, y: 0.24, w: 0.8, h: 0.36 },
+            subtitle: { x: 0.1, y: 0.64, w: 0.8, h: 0.08 },
+        },
+    },
+    'kpi-grid': {
+        id: 'kpi-grid',
+        label: 'KPI grid',
+        description: 'Heading at the top, then a grid of 2-6 tiles, each a big number with a short label.',
+        regions: { title: HEADER, metrics: CONTENT },
+    },
+    'closing': {
+        id: 'closing',
+        label: 'Closing',
+        description: 'Closing slide: short heading and call to action, centered.',
+        regions: {
+            title: { x: 0.1, y: 0.34, w: 0.8, h: 0.2 },
+            subtitle: { x: 0.1, y: 0.56, w: 0.8, h: 0.1 },
+        },
+    },
+};
+
+export const SLIDE_LAYOUTS = Object.keys(LAYOUT_TEMPLATES) as SlideLayout[];
+
+const REGION_ROLES: Record<LayoutRegionName, string> = {
+    title: 'the heading',
+    subtitle: 'the subheading',
+    body: 'the bullets and body text',
+    aside: 'the second column',
+    data: 'the chart or table area; keep it calm, plain background, the data is drawn there afterwards',
+    media: 'the photo or illustration',
+    metrics: 'the KPI tiles, evenly spaced, each with its number large and its label small',
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeRegion = (region: SlideRegion) =>
+    `x ${percent(region.x)}-${percent(region.x + region.w)}, y ${percent(region.y)}-${percent(region.y + region.h)}`;
+
+/**
+ * The layout as a composition constraint for image models. With `wireframe`, the
+ * prompt also refers to the wireframe image passed along as the last reference.
+ */
+export const describeLayout = (layout: SlideLayout, wireframe: boolean = false): string => {
+    const template = LAYOUT_TEMPLATES[layout];
+    const regions = (Object.entries(template.regions) as [LayoutRegionName, SlideRegion][])
+        .map(([name, region]) => `- ${describeRegion(region)}: ${REGION_ROLES[name]}.`);
+    return [
+        `LAYOUT "${template.label}" (follow this composition exactly): ${template.description}`,
+        ...regions,
+        'Everything outside these areas is background. Positions are fractions of the slide width (x) and height (y).',
+        wireframe && 'The LAST reference image is a wireframe of this layout: copy its composition only, never its boxes, labels or gray look.',
+    ].filter(Boolean).join('\n');
+};
+
+/**
+ * Draws the layout's regions as a labeled 16:9 wireframe, handed to providers that
+ * take reference images so they see the composition rather than just read it.
+ */
+export const layoutWireframe = async (layout: SlideLayout): Promise<File> => {
+    const width = 1280;
+    const height = 720;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, width, height);
+    ctx.font = '28px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (const [name, region] of Object.entries(LAYOUT_TEMPLATES[layout].regions)) {
+        const x = region.x * width;
+        const y = region.y * height;
+        const w = region.w * width;
+        const h = region.h * height;
+        ctx.fillStyle = '#E5E7EB';
+        ctx.fillRect(x, y, w, h);
+        ctx.strokeStyle = '#9CA3AF';
+        ctx.lineWidth = 3;
+        ctx.strokeRect(x, y, w, h);
+        ctx.fillStyle = '#6B7280';
+        ctx.fillText(name.toUpperCase(), x + w / 2, y + h / 2);
+    }
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not draw the layout wireframe');
+    return new File([blob], `layout-${layout}.png`, { type: 'image/png' });
+};
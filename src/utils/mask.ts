@@ -0,0 +1,155 @@
+import type { SlideRegion } from '../types/deck';
+import { loadImage } from './image';
+
+export interface MaskPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * A shape drawn on a slide to mark the area an edit may change, in fractions of
+ * the slide size. Brush `size` is a fraction of the slide width.
+ */
+export type MaskShape =
+    | { kind: 'rect'; region: SlideRegion }
+    | { kind: 'stroke'; points: MaskPoint[]; size: number };
+
+/**
+ * The area of a masked edit, rasterized at the slide's size: `area` is a PNG that is
+ * opaque white inside the area and transparent outside it. `bounds` encloses it.
+ */
+export interface EditMask {
+    area: string;
+    bounds: SlideRegion;
+}
+
+// Soft edge on the composite, as a fraction of the slide width, so the seam doesn't show
+const FEATHER = 0.004;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * The smallest region enclosing all shapes, or null if they cover nothing.
+ */
+export const maskBounds = (shapes: MaskShape[], aspect: number = 16 / 9): SlideRegion | null => {
+    const boxes = shapes.map(shape => {
+        if (shape.kind === 'rect') return shape.region;
+        const rx = shape.size / 2;
+        const ry = rx * aspect;
+        const xs = shape.points.map(p => p.x);
+        const ys = shape.points.map(p => p.y);
+        const x = Math.min(...xs) - rx;
+        const y = Math.min(...ys) - ry;
+        return { x, y, w: Math.max(...xs) + rx - x, h: Math.max(...ys) + ry - y };
+    }).filter(box => box.w > 0 && box.h > 0);
+    if (boxes.length === 0) return null;
+
+    const x = clamp01(Math.min(...boxes.map(b => b.x)));
+    const y = clamp01(Math.min(...boxes.map(b => b.y)));
+    return {
+        x,
+        y,
+        w: clamp01(Math.max(...boxes.map(b => b.x + b.w))) - x,
+        h: clamp01(Math.max(...boxes.map(b => b.y + b.h))) - y,
+    };
+};
+
+const drawShapes = (ctx: CanvasRenderingContext2D, shapes: MaskShape[], width: number, height: number) => {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    for (const shape of shapes) {
+        if (shape.kind === 'rect') {
+            const { x, y, w, h } = shape.region;
+            ctx.fillRect(x * width, y * height, w * width, h * height);
+            continue;
+        }
+        ctx.lineWidth = shape.size * width;
+        ctx.beginPath();
+        shape.points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x * width, p.y * height) : ctx.lineTo(p.x * width, p.y * height));
+        // A single click still marks a dot
+        if (shape.points.length === 1) ctx.lineTo(shape.points[0].x * width + 0.01, shape.points[0].y * height);
+        ctx.stroke();
+    }
+};
+
+/**
+ * Rasterizes the drawn shapes at the size of the slide image. Null if nothing was drawn.
+ */
+export const buildEditMask = async (imageData: string, shapes: MaskShape[]): Promise<EditMask | null> => {
+    const img = await loadImage(imageData);
+    const bounds = maskBounds(shapes, img.naturalWidth / img.naturalHeight);
+    if (!bounds) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    drawShapes(ctx, shapes, canvas.width, canvas.height);
+    return { area: canvas.toDataURL('image/png'), bounds };
+};
+
+/**
+ * The area in OpenAI's mask convention: transparent where the image may change,
+ * opaque everywhere else.
+ */
+export const alphaMask = async (area: string): Promise<Blob> => {
+    const img = await loadImage(area);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.drawImage(img, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not encode the edit mask');
+    return blob;
+};
+
+/**
+ * Takes the edited image inside the area and the original everywhere else, so
+ * nothing outside the selection changes whatever the model did there.
+ */
+export const compositeMasked = async (original: string, edited: string, area: string): Promise<string> => {
+    const [base, result, mask] = await Promise.all([loadImage(original), loadImage(edited), loadImage(area)]);
+    const width = base.naturalWidth;
+    const height = base.naturalHeight;
+
+    // The edit, cut to the (feathered) area; it may come back at a different size
+    const patch = document.createElement('canvas');
+    patch.width = width;
+    patch.height = height;
+    const patchCtx = patch.getContext('2d');
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!patchCtx || !ctx) throw new Error('Canvas 2D context unavailable');
+
+    patchCtx.drawImage(result, 0, 0, width, height);
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.filter = `blur(${Math.max(1, Math.round(FEATHER * width))}px)`;
+    patchCtx.drawImage(mask, 0, 0, width, height);
+
+    ctx.drawImage(base, 0, 0);
+    ctx.drawImage(patch, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Tells the model where the edit goes, for providers that can't take a mask and as
+ * a hint alongside one.
+ */
+export const describeEditArea = (bounds: SlideRegion): string =>
+    `EDIT AREA: Only change the area from ${percent(bounds.x)} to ${percent(bounds.x + bounds.w)} of the width and `
+    + `${percent(bounds.y)} to ${percent(bounds.y + bounds.h)} of the height. Leave everything outside it exactly as it is, `
+    + 'and blend the change into its surroundings. Keep the whole image at its current size and aspect ratio.';
@@ -1,25 +1,274 @@
 import pptxgen from 'pptxgenjs';
+import type { BrandKit, Slide, SlideContent, SlideLayout, SlideMetric, SlideRegion } from '../types/deck';
+import { chartColors } from './dataVisual';
+import { averageLuminance } from './image';
+import { LAYOUT_TEMPLATES, type LayoutRegionName } from './layouts';
+import { bodyRegion, dataRegion, metricsRegion, titleRegion } from './slideContent';
 
-interface SlideData {
-    imageData?: string; // base64
-}
+type SlideData = Pick<Slide, 'imageData' | 'content' | 'background' | 'activeVersionId' | 'speakerNotes'>;
 
-export const exportPresentation = (slides: SlideData[]) => {
-    const pptx = new pptxgen();
+/**
+ * 'image' puts each rendered slide in as one picture.
+ * 'editable' rebuilds the planned text as native text boxes over a text-free background.
+ * Charts and tables are native objects in both modes.
+ */
+export type ExportMode = 'image' | 'editable';
+
+// pptxgenjs LAYOUT_16x9, in inches
+const SLIDE_WIDTH = 10;
+const SLIDE_HEIGHT = 5.625;
+
+const pptxColor = (hex: string) => hex.replace('#', '').toUpperCase();
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const toInches = (region: SlideRegion) => {
+    const x = clamp(region.x);
+    const y = clamp(region.y);
+    // Keep boxes on the slide even if the planner's region spills over an edge
+    const w = Math.max(0.05, Math.min(clamp(region.w), 1 - x));
+    const h = Math.max(0.05, Math.min(clamp(region.h), 1 - y));
+    return { x: x * SLIDE_WIDTH, y: y * SLIDE_HEIGHT, w: w * SLIDE_WIDTH, h: h * SLIDE_HEIGHT };
+};
+
+/**
+ * Picks a readable text color for a region of the background. Busy mid-tone
+ * areas get a translucent panel behind the text as well.
+ */
+const textStyleFor = async (background: string, region: SlideRegion) => {
+    const luminance = await averageLuminance(background, region);
+    if (luminance > 0.6) return { color: '1F1F1F', panel: null };
+    if (luminance < 0.4) return { color: 'FFFFFF', panel: null };
+    return { color: '1F1F1F', panel: 'FFFFFF' };
+};
+
+const masterName = (layout: SlideLayout) => `PRODECK_${layout.toUpperCase().replace(/-/g, '_')}`;
+
+// Which kind of PowerPoint placeholder each template region becomes
+const placeholderType = (name: LayoutRegionName, layout: SlideLayout): pptxgen.PLACEHOLDER_TYPE => {
+    if (name === 'title') return 'title';
+    if (name === 'media') return 'pic';
+    if (name === 'data') return layout === 'table' ? 'tbl' : 'chart';
+    return 'body';
+};
+
+/**
+ * One slide master per layout template, with a named placeholder for each region,
+ * so slides keep their layout when edited or re-themed in PowerPoint.
+ */
+const defineMasters = (pptx: pptxgen, brandKit?: BrandKit) => {
+    const background = brandKit?.palette.find(c => /background/i.test(c.role))?.hex;
+    for (const template of Object.values(LAYOUT_TEMPLATES)) {
+        const regions = Object.entries(template.regions) as [LayoutRegionName, SlideRegion][];
+        pptx.defineSlideMaster({
+            title: masterName(template.id),
+            background: background ? { color: pptxColor(background) } : undefined,
+            objects: regions.map(([name, region]) => ({
+                placeholder: {
+                    options: {
+                        name,
+                        type: placeholderType(name, template.id),
+                        ...toInches(region),
+                        fontFace: name === 'title' ? brandKit?.fonts.heading : brandKit?.fonts.body,
+                    },
+                    text: '',
+                },
+            })),
+        });
+    }
+};
+
+const addImageSlide = (pptx: pptxgen, imageData: string, layout: SlideLayout): pptxgen.Slide => {
+    const s = pptx.addSlide({ masterName: masterName(layout) });
+    // Use addImage instead of background for better reliability
+    s.addImage({
+        data: imageData,
+        x: 0,
+        y: 0,
+        w: "100%",
+        h: "100%"
+    });
+    return s;
+};
+
+/**
+ * Adds text in a region, colored to read on the background beneath it. `placeholder`
+ * ties the box to the master's placeholder of that name, whose position then wins,
+ * so slides planned with their own regions leave it out.
+ */
+const addTextBox = async (
+    pptx: pptxgen,
+    s: pptxgen.Slide,
+    background: string,
+    region: SlideRegion,
+    text: pptxgen.TextProps[],
+    options: pptxgen.TextPropsOptions
+) => {
+    const style = await textStyleFor(background, region);
+    if (style.panel) {
+        s.addShape(pptx.ShapeType.rect, {
+            ...toInches(region),
+            fill: { color: style.panel, transparency: 25 },
+            line: { type: 'none' },
+        });
+    }
+    s.addText(text, { ...toInches(region), color: style.color, fit: 'shrink', ...options });
+};
 
-    slides.forEach(slide => {
-        if (slide.imageData) {
-            const s = pptx.addSlide();
-            // Use addImage instead of background for better reliability
-            s.addImage({
-                data: slide.imageData,
-                x: 0,
-                y: 0,
-                w: "100%",
-                h: "100%"
-            });
+const overlaps = (a: SlideRegion, b: SlideRegion) =>
+    a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+
+/**
+ * Lays KPI tiles out in up to three columns across the region.
+ */
+const metricTiles = (metrics: SlideMetric[], region: SlideRegion): SlideRegion[] => {
+    const columns = metrics.length === 4 ? 2 : Math.min(3, metrics.length);
+    const rows = Math.ceil(metrics.length / columns);
+    const gap = 0.02;
+    const w = (region.w - gap * (columns - 1)) / columns;
+    const h = (region.h - gap * (rows - 1)) / rows;
+    return metrics.map((_, i) => ({
+        x: region.x + (w + gap) * (i % columns),
+        y: region.y + (h + gap) * Math.floor(i / columns),
+        w,
+        h,
+    }));
+};
+
+const addEditableSlide = async (
+    pptx: pptxgen,
+    background: string,
+    content: SlideContent,
+    fonts?: BrandKit['fonts']
+): Promise<pptxgen.Slide> => {
+    const { regions } = LAYOUT_TEMPLATES[content.layout];
+    const s = pptx.addSlide({ masterName: masterName(content.layout) });
+    s.addImage({ data: background, x: 0, y: 0, w: "100%", h: "100%" });
+
+    // Templates with a subtitle region get it as its own box; elsewhere it sits under the heading
+    const separateSubtitle = !!regions.subtitle && !content.titleRegion;
+    await addTextBox(pptx, s, background, titleRegion(content), [
+        { text: content.title, options: { fontSize: 32, bold: true, breakLine: !!content.subtitle && !separateSubtitle } },
+        ...(content.subtitle && !separateSubtitle ? [{ text: content.subtitle, options: { fontSize: 18 } }] : []),
+    ], { placeholder: content.titleRegion ? undefined : 'title', fontFace: fonts?.heading, valign: 'middle' });
+
+    if (content.subtitle && separateSubtitle && regions.subtitle) {
+        await addTextBox(pptx, s, background, regions.subtitle, [{ text: content.subtitle }], {
+            placeholder: 'subtitle',
+            fontSize: 20,
+            fontFace: fonts?.body,
+            valign: 'top',
+        });
+    }
+
+    if (content.metrics?.length) {
+        const tiles = metricTiles(content.metrics, metricsRegion(content));
+        for (const [i, metric] of content.metrics.entries()) {
+            await addTextBox(pptx, s, background, tiles[i], [
+                { text: metric.value, options: { fontSize: 36, bold: true, fontFace: fonts?.heading, breakLine: true } },
+                { text: metric.label, options: { fontSize: 14 } },
+            ], { fontFace: fonts?.body, align: 'center', valign: 'middle' });
         }
+    }
+
+    // A chart or table takes over any text region it overlaps
+    const data = content.chart || content.table ? dataRegion(content) : undefined;
+    const freeForText = (region: SlideRegion) => !data || !overlaps(region, data);
+    const bullets = content.bullets.map(text => ({ text, options: { bullet: true, breakLine: true } }));
+    const body = content.body ? [{ text: content.body, options: { breakLine: true } }] : [];
+    const bodyOptions: pptxgen.TextPropsOptions = { fontSize: 18, fontFace: fonts?.body, valign: 'top', paraSpaceAfter: 6 };
+
+    // Two columns: bullets on the left, body text on the right unless the data is there
+    const aside = !content.bodyRegion && regions.aside && freeForText(regions.aside) ? regions.aside : undefined;
+    const main = bodyRegion(content);
+    const paragraphs = freeForText(main) ? [...bullets, ...(aside ? [] : body)] : [];
+    if (paragraphs.length > 0) {
+        const placeholder = regions.body && !content.bodyRegion ? 'body' : undefined;
+        await addTextBox(pptx, s, background, main, paragraphs, { ...bodyOptions, placeholder });
+    }
+    if (aside && body.length > 0) {
+        await addTextBox(pptx, s, background, aside, body, { ...bodyOptions, placeholder: 'aside' });
+    }
+    return s;
+};
+
+/**
+ * Adds the slide's chart or table as a native, editable object on a light panel,
+ * matching the preview overlay.
+ */
+const addDataVisual = (pptx: pptxgen, s: pptxgen.Slide, content: SlideContent, brandKit?: BrandKit) => {
+    const chart = content.chart?.series.some(series => series.values.length > 0) ? content.chart : undefined;
+    const table = content.table && content.table.columns.length > 0 ? content.table : undefined;
+    if (!chart && !table) return;
+
+    const box = toInches(dataRegion(content));
+    const inner = { x: box.x + 0.15, y: box.y + 0.15, w: box.w - 0.3, h: box.h - 0.3 };
+    const colors = chartColors(brandKit).map(pptxColor);
+    const fontFace = brandKit?.fonts.body;
+
+    s.addShape(pptx.ShapeType.roundRect, {
+        ...box,
+        rectRadius: 0.1,
+        fill: { color: 'FFFFFF', transparency: 8 },
+        line: { type: 'none' },
     });
 
-    pptx.writeFile({ fileName: `ProDeck_${new Date().toISOString()}.pptx` });
+    if (chart) {
+        s.addChart(chart.type, chart.series, {
+            ...inner,
+            chartColors: colors,
+            showLegend: chart.type === 'pie' || chart.series.length > 1,
+            legendPos: chart.type === 'pie' ? 'r' : 't',
+            legendFontFace: fontFace,
+            catAxisLabelFontFace: fontFace,
+            valAxisLabelFontFace: fontFace,
+            showPercent: chart.type === 'pie',
+        });
+        return;
+    }
+
+    if (table) {
+        const header = table.columns.map(text => ({
+            text,
+            options: { bold: true, color: 'FFFFFF', fill: { color: colors[0] } },
+        }));
+        const rows = table.rows.map(row => row.map(text => ({ text })));
+        s.addTable([header, ...rows], {
+            ...inner,
+            fontFace,
+            fontSize: 12,
+            color: '1F1F1F',
+            border: { type: 'solid', pt: 0.5, color: 'E5E7EB' },
+            autoPage: false,
+        });
+    }
+};
+
+/**
+ * Each slide is based on the slide master of its layout. The deck's brand kit supplies
+ * the masters' background and the fonts of the native text boxes in editable mode,
+ * and the colors of charts and tables.
+ */
+export const exportPresentation = async (slides: SlideData[], mode: ExportMode = 'image', brandKit?: BrandKit) => {
+    const fonts = brandKit?.fonts;
+    const pptx = new pptxgen();
+    pptx.layout = 'LAYOUT_16x9';
+    defineMasters(pptx, brandKit);
+
+    for (const slide of slides) {
+        if (!slide.imageData) continue;
+
+        // Slides without planned text or a current text-free background fall back to a picture
+        const background = slide.background?.versionId === slide.activeVersionId ? slide.background?.imageData : undefined;
+        const s = mode === 'editable' && slide.content && background
+            ? await addEditableSlide(pptx, background, slide.content, fonts)
+            : addImageSlide(pptx, slide.imageData, slide.content?.layout ?? 'bullets');
+        if (slide.content) addDataVisual(pptx, s, slide.content, brandKit);
+
+        if (slide.speakerNotes?.trim()) {
+            s.addNotes(slide.speakerNotes);
+        }
+    }
+
+    await pptx.writeFile({ fileName: `ProDeck_${new Date().toISOString()}.pptx` });
 };
@@ -0,0 +1,412 @@
+import JSZip from 'jszip';
+import type { Slide, SlideContent, SlideLayout, SlideMedia, SlideRegion, SlideTable } from '../types/deck';
+import { createVersion } from './slideVersions';
+
+/**
+ * A .pptx read back into slides: the recovered text as structured content, the
+ * speaker notes, and the pictures on each slide.
+ */
+export interface ImportedDeck {
+    title: string;
+    slides: Slide[];
+}
+
+// PowerPoint's default 16:9 slide, in EMU
+const DEFAULT_SLIDE_SIZE = { cx: 12192000, cy: 6858000 };
+
+// A picture covering this much of the slide is the slide itself (e.g. decks exported as pictures)
+const FULL_SLIDE_COVERAGE = 0.9;
+
+const EXTENSION_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    bmp: 'image/bmp',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    emf: 'image/x-emf',
+    wmf: 'image/x-wmf',
+    tif: 'image/tiff',
+    tiff: 'image/tiff',
+};
+
+// What an <img> can show; EMF, WMF and TIFF pictures are only used through their fallbacks
+const DISPLAYABLE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/bmp', 'image/webp', 'image/svg+xml'];
+
+// Header and footer placeholders carry no content
+const SKIPPED_PLACEHOLDERS = ['dt', 'ftr', 'hdr', 'sldNum'];
+
+interface Relationship {
+    type: string;
+    target: string; // resolved path inside the package
+}
+
+interface Frame {
+    region: SlideRegion | null;
+}
+
+interface TextShape extends Frame {
+    placeholder?: string; // 'title', 'body', ... ('body' for typeless content placeholders)
+    paragraphs: string[];
+}
+
+interface Picture extends Frame {
+    path: string;
+    description?: string;
+}
+
+interface SlideParts {
+    texts: TextShape[];
+    pictures: Picture[];
+    tables: SlideTable[];
+}
+
+/**
+ * Maps a group's child coordinate space onto the slide, in EMU.
+ */
+interface Transform {
+    (x: number, y: number, w: number, h: number): { x: number; y: number; w: number; h: number };
+}
+
+const identity: Transform = (x, y, w, h) => ({ x, y, w, h });
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'text/xml');
+
+// Matched by local name, so documents using other namespace prefixes still read
+const children = (el: Element, name: string) => Array.from(el.children).filter(child => child.localName === name);
+const child = (el: Element | undefined, name: string): Element | undefined => el && children(el, name)[0];
+const descendants = (el: Element | Document, name: string) => Array.from(el.getElementsByTagNameNS('*', name));
+
+const attr = (el: Element | undefined, name: string) => el?.getAttribute(name) ?? undefined;
+
+// Relationship ids live in the relationships namespace, whatever its prefix
+const relId = (el: Element | undefined, name: string) =>
+    el ? Array.from(el.attributes).find(a => a.localName === name && a.prefix)?.value : undefined;
+
+/**
+ * Resolves a relationship target against the part it belongs to.
+ */
+const resolvePath = (partPath: string, target: string): string => {
+    if (target.startsWith('/')) return target.slice(1);
+    const segments = partPath.split('/').slice(0, -1);
+    for (const segment of target.split('/')) {
+        if (segment === '..') segments.pop();
+        else if (segment !== '.' && segment !== '') segments.push(segment);
+    }
+    return segments.join('/');
+};
+
+const relsPath = (partPath: string) => {
+    const slash = partPath.lastIndexOf('/');
+    return `${partPath.slice(0, slash)}/_rels/${partPath.slice(slash + 1)}.rels`;
+};
+
+const readRelationships = async (zip: JSZip, partPath: string): Promise<Map<string, Relationship>> => {
+    const rels = new Map<string, Relationship>();
+    const file = zip.file(relsPath(partPath));
+    if (!file) return rels;
+    for (const rel of descendants(parseXml(await file.async('text')), 'Relationship')) {
+        const id = attr(rel, 'Id');
+        const target = attr(rel, 'Target');
+        // External links (e.g. linked pictures) aren't in the package
+        if (!id || !target || attr(rel, 'TargetMode') === 'External') continue;
+        rels.set(id, { type: attr(rel, 'Type') ?? '', target: resolvePath(partPath, target) });
+    }
+    return rels;
+};
+
+/**
+ * Content types of the package, by part path and by extension.
+ */
+const readContentTypes = async (zip: JSZip) => {
+    const types = { byPath: new Map<string, string>(), byExtension: new Map(Object.entries(EXTENSION_TYPES)) };
+    const file = zip.file('[Content_Types].xml');
+    if (!file) return types;
+    const doc = parseXml(await file.async('text'));
+    for (const el of descendants(doc, 'Default')) {
+        const extension = attr(el, 'Extension')?.toLowerCase();
+        const type = attr(el, 'ContentType');
+        if (extension && type) types.byExtension.set(extension, type);
+    }
+    for (const el of descendants(doc, 'Override')) {
+        const part = attr(el, 'PartName');
+        const type = attr(el, 'ContentType');
+        if (part && type) types.byPath.set(part.replace(/^\//, ''), type);
+    }
+    return types;
+};
+
+type ContentTypes = Awaited<ReturnType<typeof readContentTypes>>;
+
+const contentType = (types: ContentTypes, path: string) =>
+    types.byPath.get(path) ?? types.byExtension.get(path.split('.').pop()?.toLowerCase() ?? '') ?? 'application/octet-stream';
+
+/**
+ * The text of a paragraph: its runs and fields, with line breaks as spaces.
+ */
+const paragraphText = (p: Element): string =>
+    Array.from(p.children).map(node => {
+        if (node.localName === 'r' || node.localName === 'fld') return child(node, 't')?.textContent ?? '';
+        if (node.localName === 'br') return ' ';
+        return '';
+    }).join('').replace(/\s+/g, ' ').trim();
+
+const textParagraphs = (body: Element | undefined): string[] =>
+    body ? children(body, 'p').map(paragraphText).filter(Boolean) : [];
+
+/**
+ * The frame of a shape from its <a:xfrm>, mapped through the enclosing groups.
+ */
+const frameOf = (xfrm: Element | undefined, transform: Transform): { x: number; y: number; w: number; h: number } | null => {
+    const off = child(xfrm, 'off');
+    const ext = child(xfrm, 'ext');
+    if (!off || !ext) return null;
+    return transform(Number(attr(off, 'x')), Number(attr(off, 'y')), Number(attr(ext, 'cx')), Number(attr(ext, 'cy')));
+};
+
+const placeholderOf = (nvPr: Element | undefined): string | undefined => {
+    const ph = child(nvPr, 'ph');
+    if (!ph) return undefined;
+    return attr(ph, 'type') ?? 'body';
+};
+
+const tableOf = (tbl: Element): SlideTable | undefined => {
+    const rows = children(tbl, 'tr').map(tr => children(tr, 'tc').map(tc => textParagraphs(child(tc, 'txBody')).join(' ')));
+    const [columns, ...rest] = rows;
+    if (!columns || columns.length === 0) return undefined;
+    return { columns, rows: rest.map(row => columns.map((_, i) => row[i] ?? '')) };
+};
+
+/**
+ * Walks a shape tree, collecting text, pictures and tables in document order.
+ */
+const collectShapes = (
+    tree: Element,
+    rels: Map<string, Relationship>,
+    types: ContentTypes,
+    toRegion: (frame: ReturnType<typeof frameOf>) => SlideRegion | null,
+    transform: Transform,
+    parts: SlideParts
+) => {
+    for (const node of Array.from(tree.children)) {
+        switch (node.localName) {
+            case 'sp': {
+                const placeholder = placeholderOf(child(child(node, 'nvSpPr'), 'nvPr'));
+                if (placeholder && SKIPPED_PLACEHOLDERS.includes(placeholder)) break;
+                const paragraphs = textParagraphs(child(node, 'txBody'));
+                if (paragraphs.length === 0) break;
+                const region = toRegion(frameOf(child(child(node, 'spPr'), 'xfrm'), transform));
+                parts.texts.push({ placeholder, paragraphs, region });
+                break;
+            }
+            case 'pic': {
+                const blipFill = child(node, 'blipFill');
+                const blip = child(blipFill, 'blip');
+                // Office stores SVGs as an extension of a PNG blip; use whichever the browser can show, vector first
+                const candidates = [relId(descendants(blip ?? node, 'svgBlip')[0], 'embed'), relId(blip, 'embed')]
+                    .map(id => id && rels.get(id)?.target)
+                    .filter((path): path is string => !!path);
+                const path = candidates.find(candidate => DISPLAYABLE_TYPES.includes(contentType(types, candidate)));
+                if (!path) {
+                    if (candidates.length > 0) console.warn(`Skipped a picture with no displayable version: ${candidates.join(', ')}`);
+                    break;
+                }
+                const nvPicPr = child(node, 'nvPicPr');
+                parts.pictures.push({
+                    path,
+                    description: attr(child(nvPicPr, 'cNvPr'), 'descr') || undefined,
+                    region: toRegion(frameOf(child(child(node, 'spPr'), 'xfrm'), transform)),
+                });
+                break;
+            }
+            case 'graphicFrame': {
+                const tbl = descendants(node, 'tbl')[0];
+                const table = tbl && tableOf(tbl);
+                if (table) parts.tables.push(table);
+                break;
+            }
+            case 'grpSp': {
+                const xfrm = child(child(node, 'grpSpPr'), 'xfrm');
+                const frame = frameOf(xfrm, transform);
+                const chOff = child(xfrm, 'chOff');
+                const chExt = child(xfrm, 'chExt');
+                let inner = transform;
+                if (frame && chOff && chExt) {
+                    const cx = Number(attr(chOff, 'x'));
+                    const cy = Number(attr(chOff, 'y'));
+                    const sx = frame.w / (Number(attr(chExt, 'cx')) || 1);
+                    const sy = frame.h / (Number(attr(chExt, 'cy')) || 1);
+                    inner = (x, y, w, h) => ({ x: frame.x + (x - cx) * sx, y: frame.y + (y - cy) * sy, w: w * sx, h: h * sy });
+                }
+                collectShapes(node, rels, types, toRegion, inner, parts);
+                break;
+            }
+            case 'AlternateContent': {
+                // Newer content with a fallback for older readers; take the first branch that yields anything
+                const branches = [...children(node, 'Choice'), ...children(node, 'Fallback')];
+                for (const branch of branches) {
+                    const before = parts.texts.length + parts.pictures.length + parts.tables.length;
+                    collectShapes(branch, rels, types, toRegion, transform, parts);
+                    if (parts.texts.length + parts.pictures.length + parts.tables.length > before) break;
+                }
+                break;
+            }
+        }
+    }
+};
+
+// Reading order: top to bottom, then left to right; shapes without a frame keep their place at the end
+const byPosition = (a: Frame, b: Frame) =>
+    (a.region?.y ?? 2) - (b.region?.y ?? 2) || (a.region?.x ?? 2) - (b.region?.x ?? 2);
+
+const coverage = (region: SlideRegion | null) => region ? Math.min(1, region.w) * Math.min(1, region.h) : 0;
+
+/**
+ * Sorts the recovered text into heading, subheading, bullets and body, and picks the
+ * library layout closest to how the slide was built.
+ */
+const buildContent = (parts: SlideParts, media: SlideMedia[], fallbackTitle: string): SlideContent => {
+    const texts = [...parts.texts].sort(byPosition);
+    const titleShape = texts.find(t => t.placeholder === 'title' || t.placeholder === 'ctrTitle');
+    const subtitleShape = texts.find(t => t.placeholder === 'subTitle');
+    const bodyShapes = texts.filter(t => t.placeholder && t !== titleShape && t !== subtitleShape);
+    // Plain text boxes; the topmost stands in for the heading when there is no title placeholder
+    const looseShapes = texts.filter(t => !t.placeholder);
+    const headingShape = titleShape ?? looseShapes[0];
+    const otherShapes = looseShapes.filter(t => t !== headingShape);
+
+    const table = parts.tables[0];
+    const bullets = bodyShapes.flatMap(t => t.paragraphs);
+    const body = otherShapes.flatMap(t => t.paragraphs).join('\n') || undefined;
+
+    let layout: SlideLayout = 'bullets';
+    if (titleShape?.placeholder === 'ctrTitle') layout = 'title';
+    else if (table) layout = 'table';
+    else if (bodyShapes.length >= 2) layout = 'two-column';
+    else if (media.length > 0 && (bullets.length > 0 || body)) layout = 'image';
+    else if (bullets.length === 0 && !body) layout = 'section';
+
+    const descriptions = media.map(m => m.description).filter(Boolean);
+    return {
+        layout,
+        title: headingShape?.paragraphs.join(' ') ?? fallbackTitle,
+        subtitle: subtitleShape?.paragraphs.join(' '),
+        bullets,
+        body,
+        table,
+        imageDescription: descriptions.length > 0 ? descriptions.join('; ') : undefined,
+    };
+};
+
+const readNotes = async (zip: JSZip, rels: Map<string, Relationship>): Promise<string | undefined> => {
+    const notesPath = [...rels.values()].find(rel => rel.type.endsWith('/notesSlide'))?.target;
+    const file = notesPath && zip.file(notesPath);
+    if (!file) return undefined;
+    const doc = parseXml(await file.async('text'));
+    // The notes text is the body placeholder; the others hold the slide thumbnail and number
+    const notes = descendants(doc, 'sp')
+        .filter(sp => placeholderOf(descendants(sp, 'nvPr')[0]) === 'body')
+        .flatMap(sp => textParagraphs(child(sp, 'txBody')));
+    return notes.length > 0 ? notes.join('\n') : undefined;
+};
+
+/**
+ * Slide part paths in presentation order, from presentation.xml's slide list.
+ */
+const slideOrder = (presentation: Document, rels: Map<string, Relationship>): string[] =>
+    descendants(presentation, 'sldId')
+        .map(el => rels.get(relId(el, 'id') ?? '')?.target)
+        .filter((path): path is string => !!path);
+
+const readTitle = async (zip: JSZip): Promise<string | undefined> => {
+    const file = zip.file('docProps/core.xml');
+    if (!file) return undefined;
+    return descendants(parseXml(await file.async('text')), 'title')[0]?.textContent?.trim() || undefined;
+};
+
+/**
+ * Reads a .pptx: slides in presentation order, with their text recovered as
+ * structured content, their speaker notes, and their pictures. A slide that is a
+ * single full-slide picture (as exported decks are) keeps it as its image; the
+ * others come in unrendered, ready to be rendered from their content.
+ */
+export const importPresentation = async (file: File): Promise<ImportedDeck> => {
+    const zip = await JSZip.loadAsync(file);
+    const presentationPath = 'ppt/presentation.xml';
+    const presentationFile = zip.file(presentationPath);
+    if (!presentationFile) throw new Error('Not a PowerPoint presentation: ppt/presentation.xml is missing');
+
+    const presentation = parseXml(await presentationFile.async('text'));
+    const [presentationRels, types] = await Promise.all([readRelationships(zip, presentationPath), readContentTypes(zip)]);
+    const size = descendants(presentation, 'sldSz')[0];
+    const slideWidth = Number(attr(size, 'cx')) || DEFAULT_SLIDE_SIZE.cx;
+    const slideHeight = Number(attr(size, 'cy')) || DEFAULT_SLIDE_SIZE.cy;
+    const toRegion = (frame: ReturnType<typeof frameOf>): SlideRegion | null => frame && {
+        x: frame.x / slideWidth,
+        y: frame.y / slideHeight,
+        w: frame.w / slideWidth,
+        h: frame.h / slideHeight,
+    };
+
+    const mediaCache = new Map<string, Promise<string>>();
+    const readMedia = (path: string) => {
+        if (!mediaCache.has(path)) {
+            mediaCache.set(path, zip.file(path)?.async('base64').then(data => `data:${contentType(types, path)};base64,${data}`)
+                ?? Promise.reject(new Error(`Missing media ${path}`)));
+        }
+        return mediaCache.get(path)!;
+    };
+
+    const slides: Slide[] = [];
+    for (const slidePath of slideOrder(presentation, presentationRels)) {
+        const slideFile = zip.file(slidePath);
+        if (!slideFile) continue;
+        const slideNumber = slides.length + 1;
+        const doc = parseXml(await slideFile.async('text'));
+        const rels = await readRelationships(zip, slidePath);
+
+        const parts: SlideParts = { texts: [], pictures: [], tables: [] };
+        const tree = descendants(doc, 'spTree')[0];
+        if (tree) collectShapes(tree, rels, types, toRegion, identity, parts);
+
+        const pictures = (await Promise.all(parts.pictures.map(async picture => {
+            try {
+                return [{ ...picture, imageData: await readMedia(picture.path) }];
+            } catch (error) {
+                console.warn(`Could not read picture on slide ${slideNumber}`, error);
+                return [];
+            }
+        }))).flat();
+        const fullSlide = pictures.find(picture => coverage(picture.region) >= FULL_SLIDE_COVERAGE);
+        const media: SlideMedia[] = pictures
+            .filter(picture => picture !== fullSlide)
+            .map(picture => ({
+                name: picture.path.split('/').pop() ?? picture.path,
+                imageData: picture.imageData,
+                region: picture.region ?? { x: 0, y: 0, w: 1, h: 1 },
+                description: picture.description,
+            }));
+
+        const content = buildContent(parts, media, `Slide ${slideNumber}`);
+        const version = fullSlide && createVersion(fullSlide.imageData, 'import');
+        slides.push({
+            id: crypto.randomUUID(),
+            slideNumber,
+            title: content.title,
+            visualPrompt: `A clean, professional slide presenting this content, imported from "${file.name}". Compose for 16:9.`,
+            content,
+            media: media.length > 0 ? media : undefined,
+            speakerNotes: await readNotes(zip, rels),
+            status: version ? 'done' : 'pending',
+            imageData: version?.imageData,
+            versions: version ? [version] : [],
+            activeVersionId: version?.id,
+        });
+    }
+
+    return {
+        title: await readTitle(zip) ?? slides[0]?.title ?? file.name.replace(/\.pptx$/i, ''),
+        slides,
+    };
+};
@@ -0,0 +1,89 @@
+import type { Slide, SlideContent, SlideRegion } from '../types/deck';
+import { LAYOUT_TEMPLATES } from './layouts';
+
+// For layouts without a region for the content at hand, e.g. a chart on a title slide
+const FALLBACK_CONTENT_REGION: SlideRegion = { x: 0.06, y: 0.28, w: 0.88, h: 0.64 };
+
+/**
+ * Where the slide's heading goes: the layout template's title region, unless the
+ * slide was planned with its own regions before templates existed.
+ */
+export const titleRegion = (content: SlideContent): SlideRegion =>
+    content.titleRegion ?? LAYOUT_TEMPLATES[content.layout].regions.title;
+
+/**
+ * Where the slide's bullets and body text go.
+ */
+export const bodyRegion = (content: SlideContent): SlideRegion => {
+    const { regions } = LAYOUT_TEMPLATES[content.layout];
+    return content.bodyRegion ?? regions.body ?? regions.aside ?? FALLBACK_CONTENT_REGION;
+};
+
+/**
+ * Where the slide's chart or table is drawn over the rendered image.
+ */
+export const dataRegion = (content: SlideContent): SlideRegion => {
+    const { regions } = LAYOUT_TEMPLATES[content.layout];
+    return content.bodyRegion ?? regions.data ?? regions.aside ?? regions.body ?? FALLBACK_CONTENT_REGION;
+};
+
+/**
+ * Where the KPI tiles go.
+ */
+export const metricsRegion = (content: SlideContent): SlideRegion => {
+    const { regions } = LAYOUT_TEMPLATES[content.layout];
+    return regions.metrics ?? regions.body ?? FALLBACK_CONTENT_REGION;
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Content for a slide that only has a heading so far.
+ */
+export const emptyContent = (title: string): SlideContent => ({ layout: 'bullets', title, bullets: [] });
+
+/**
+ * Every piece of text on the slide, in reading order.
+ */
+export const contentLines = (content: SlideContent): string[] => [
+    content.title,
+    ...(content.subtitle ? [content.subtitle] : []),
+    ...content.bullets,
+    ...(content.body?.split('\n') ?? []),
+    ...(content.metrics?.flatMap(metric => [metric.value, metric.label]) ?? []),
+];
+
+const dataAreaDirection = (content: SlideContent) => {
+    const region = dataRegion(content);
+    const what = content.chart ? `a ${content.chart.type} chart` : 'a table';
+    return `DATA AREA: Keep the area from ${percent(region.x)} to ${percent(region.x + region.w)} of the width and `
+        + `${percent(region.y)} to ${percent(region.y + region.h)} of the height as calm, plain background: `
+        + `${what} is placed there afterwards. Do not draw any chart, table, axis or numbers yourself.`;
+};
+
+/**
+ * The image prompt for a slide: its art direction, followed by the exact text spelled
+ * out field by field. Charts and tables are drawn over the image afterwards, so the
+ * model is only asked to keep their area clear. The layout is passed to the image
+ * service separately. Slides without structured content (imported, or planned before
+ * it existed) use the visual prompt alone.
+ */
+export const composeSlidePrompt = (slide: Pick<Slide, 'visualPrompt' | 'content'>): string => {
+    const { visualPrompt, content } = slide;
+    if (!content) return visualPrompt;
+
+    const text = [
+        content.title && `Heading: "${content.title}"`,
+        content.subtitle && `Subheading: "${content.subtitle}"`,
+        content.bullets.length > 0 && `Bullets:\n${content.bullets.map(bullet => `- "${bullet}"`).join('\n')}`,
+        content.body && `Body: "${content.body}"`,
+        content.metrics?.length && `KPI tiles:\n${content.metrics.map(metric => `- "${metric.value}" with the label "${metric.label}"`).join('\n')}`,
+    ].filter(Boolean).join('\n');
+
+    return [
+        visualPrompt.trim(),
+        text ? `TEXT ON THE SLIDE (render exactly as written, and no other text):\n${text}` : 'Do not put any text on the slide.',
+        (content.chart || content.table) && dataAreaDirection(content),
+        content.imageDescription && `IMAGE: ${content.imageDescription}`,
+    ].filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,70 @@
+import type { Slide, SlideVersion } from '../types/deck';
+
+/** Most variants one render may roll; each is a separate image request. */
+export const MAX_VARIANTS = 4;
+
+export const createVersion = (
+    imageData: string,
+    source: SlideVersion['source'],
+    details: Pick<SlideVersion, 'instruction' | 'editArea' | 'model'> = {}
+): SlideVersion => ({
+    id: crypto.randomUUID(),
+    imageData,
+    source,
+    createdAt: Date.now(),
+    ...details,
+});
+
+/**
+ * Appends a version and makes it the slide's active image.
+ */
+export const withNewVersion = (slide: Slide, version: SlideVersion): Slide => ({
+    ...slide,
+    versions: [...slide.versions, version],
+    activeVersionId: version.id,
+    imageData: version.imageData,
+    status: 'done',
+    error: undefined,
+    variantIds: undefined,
+});
+
+/**
+ * Appends the versions of one render. The first becomes the active image and, when
+ * there are several, they are offered as variants until the author picks one.
+ */
+export const withVariants = (slide: Slide, versions: SlideVersion[]): Slide => ({
+    ...withNewVersion(slide, versions[0]),
+    versions: [...slide.versions, ...versions],
+    variantIds: versions.length > 1 ? versions.map(v => v.id) : undefined,
+});
+
+/**
+ * Makes an existing version the slide's active image. Going back to a version outside
+ * the pending variants (e.g. from the history) sets the variants aside.
+ */
+export const withActiveVersion = (slide: Slide, versionId: string): Slide => {
+    const version = slide.versions.find(v => v.id === versionId);
+    if (!version) return slide;
+    return {
+        ...slide,
+        activeVersionId: version.id,
+        imageData: version.imageData,
+        variantIds: slide.variantIds?.includes(version.id) ? slide.variantIds : undefined,
+    };
+};
+
+/**
+ * Keeps one of the pending variants as the slide's image. The others stay in the history.
+ */
+export const withChosenVariant = (slide: Slide, versionId: string): Slide => ({
+    ...withActiveVersion(slide, versionId),
+    variantIds: undefined,
+});
+
+/**
+ * The version created just before the active one, i.e. the target of an undo.
+ */
+export const getPreviousVersion = (slide: Slide): SlideVersion | undefined => {
+    const index = slide.versions.findIndex(v => v.id === slide.activeVersionId);
+    return index > 0 ? slide.versions[index - 1] : undefined;
+};
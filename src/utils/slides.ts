@@ -0,0 +1,58 @@
+import type { PlannedSlide, SlideRevision } from '../services/planners';
+import type { Slide } from '../types/deck';
+import { composeSlidePrompt } from './slideContent';
+
+/**
+ * Turns a planner slide into a deck slide waiting to be rendered.
+ */
+export const createSlide = (planned: PlannedSlide): Slide => ({
+    id: crypto.randomUUID(),
+    slideNumber: planned.slideNumber,
+    title: planned.title,
+    visualPrompt: planned.visualPrompt,
+    content: planned.content,
+    speakerNotes: planned.speakerNotes,
+    status: 'pending',
+    versions: [],
+});
+
+/**
+ * Copies a slide under a new id, with its plan, images and history, so the copy can be
+ * taken in another direction. Renumber the deck after inserting it.
+ */
+export const duplicateSlide = (slide: Slide): Slide => ({
+    ...slide,
+    id: crypto.randomUUID(),
+    status: slide.imageData ? 'done' : 'pending',
+    error: undefined,
+});
+
+/**
+ * Reassigns slideNumber from array order, after slides are added, removed or moved.
+ */
+export const renumberSlides = (slides: Slide[]): Slide[] =>
+    slides.map((slide, index) =>
+        slide.slideNumber === index + 1 ? slide : { ...slide, slideNumber: index + 1 }
+    );
+
+/**
+ * Carries a revised plan over to a slide, keeping its images and history.
+ */
+export const withPlan = (slide: Slide, planned: PlannedSlide): Slide => ({
+    ...slide,
+    title: planned.title,
+    visualPrompt: planned.visualPrompt,
+    content: planned.content,
+    speakerNotes: planned.speakerNotes,
+});
+
+/**
+ * What applying a deck revision to a slide takes: an edit of its current image, a
+ * new render, or nothing beyond the plan when the image prompt stays the same
+ * (e.g. only the speaker notes change).
+ */
+export const revisionEffect = (slide: Slide, revision: SlideRevision): 'edit' | 'render' | 'none' => {
+    if (revision.action === 'edit' && slide.imageData) return 'edit';
+    if (!slide.imageData || composeSlidePrompt(revision.slide) !== composeSlidePrompt(slide)) return 'render';
+    return 'none';
+};
@@ -0,0 +1,49 @@
+export interface DiffPart {
+    text: string;
+    change: 'same' | 'added' | 'removed';
+}
+
+// Words with the whitespace after them, so joining the parts gives back the text
+const tokenize = (text: string) => text.match(/\S+\s*|\s+/g) ?? [];
+
+/**
+ * Word-level diff of two texts (longest common subsequence), with runs of the
+ * same kind merged into one part.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    const key = (token: string) => token.trim();
+
+    // lengths[i][j]: LCS length of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = key(a[i]) === key(b[j])
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (text: string, change: DiffPart['change']) => {
+        const last = parts[parts.length - 1];
+        if (last?.change === change) last.text += text;
+        else parts.push({ text, change });
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && key(a[i]) === key(b[j])) {
+            push(b[j], 'same');
+            i++;
+            j++;
+        } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+            push(a[i++], 'removed');
+        } else {
+            push(b[j++], 'added');
+        }
+    }
+    return parts;
+};
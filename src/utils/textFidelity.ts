@@ -0,0 +1,139 @@
+import type { FidelityWord, Slide, TextFidelity } from '../types/deck';
+import { contentLines } from './slideContent';
+
+interface Token {
+    text: string;
+    key: string; // normalized for comparison
+}
+
+/**
+ * OCR drops punctuation and confuses quote styles, so words are compared
+ * case-insensitively on letters, digits and a few symbols only.
+ */
+const normalizeWord = (word: string) =>
+    word.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N}%$€£]/gu, '');
+
+const tokenize = (text: string): Token[] =>
+    text.split(/\s+/).map(text => ({ text, key: normalizeWord(text) })).filter(token => token.key);
+
+const editDistance = (a: string, b: string) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const looksLikeMisspelling = (expected: string, found: string) =>
+    editDistance(expected, found) <= Math.max(1, Math.floor(expected.length / 3));
+
+/**
+ * The text the planner meant to appear on the slide, one entry per line. Uses the
+ * structured content when there is one, otherwise the quoted text in the visual prompt.
+ */
+export const plannedTextLines = (slide: Pick<Slide, 'content' | 'visualPrompt'>): string[] => {
+    const lines = slide.content
+        ? contentLines(slide.content)
+        : [...slide.visualPrompt.matchAll(/["“]([^"”]{2,})["”]/g)].map(match => match[1]);
+    return lines.map(line => line.trim()).filter(line => tokenize(line).length > 0);
+};
+
+/**
+ * Diffs the planned text against OCR output word by word. Words are aligned in
+ * reading order first (longest common subsequence); words left over are then
+ * matched anywhere, since OCR may read columns in a different order than planned.
+ */
+export const measureFidelity = (plannedLines: string[], ocrText: string, versionId: string): TextFidelity => {
+    const expected = plannedLines.map(tokenize);
+    const flat = expected.flat();
+    const found = tokenize(ocrText);
+
+    // LCS table over normalized words
+    const lcs = Array.from({ length: flat.length + 1 }, () => new Array<number>(found.length + 1).fill(0));
+    for (let i = flat.length - 1; i >= 0; i--) {
+        for (let j = found.length - 1; j >= 0; j--) {
+            lcs[i][j] = flat[i].key === found[j].key ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const words: FidelityWord[] = flat.map(token => ({ text: token.text, ok: false }));
+    const unmatchedFound = new Set<number>();
+    // Unmatched expected words and OCR words between the same two matches, for pairing misspellings
+    let gapExpected: number[] = [];
+    let gapFound: number[] = [];
+    const closeGap = () => {
+        for (const e of gapExpected) {
+            const pair = gapFound.find(f => looksLikeMisspelling(flat[e].key, found[f].key));
+            if (pair !== undefined) {
+                words[e].found = found[pair].text;
+                gapFound = gapFound.filter(f => f !== pair);
+            }
+        }
+        gapFound.forEach(f => unmatchedFound.add(f));
+        gapExpected = [];
+        gapFound = [];
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < flat.length || j < found.length) {
+        if (i < flat.length && j < found.length && flat[i].key === found[j].key) {
+            closeGap();
+            words[i].ok = true;
+            i++;
+            j++;
+        } else if (j < found.length && (i === flat.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            gapFound.push(j++);
+        } else {
+            gapExpected.push(i++);
+        }
+    }
+    closeGap();
+
+    // Out-of-order text: an unmatched word that OCR did read somewhere else still counts
+    words.forEach((word, index) => {
+        if (word.ok) return;
+        const elsewhere = [...unmatchedFound].find(f => found[f].key === flat[index].key);
+        if (elsewhere !== undefined) {
+            word.ok = true;
+            word.found = undefined;
+            unmatchedFound.delete(elsewhere);
+        }
+    });
+
+    let offset = 0;
+    const lines = expected.map(line => {
+        const lineWords = words.slice(offset, offset + line.length);
+        offset += line.length;
+        return lineWords;
+    });
+
+    return {
+        versionId,
+        score: flat.length === 0 ? 1 : words.filter(word => word.ok).length / flat.length,
+        lines,
+    };
+};
+
+/**
+ * Edit instruction that fixes the discrepancies found in a fidelity check.
+ */
+export const textCorrectionInstruction = (fidelity: TextFidelity): string => {
+    const misspelled = fidelity.lines.flat()
+        .filter(word => !word.ok && word.found)
+        .map(word => `"${word.found}" should read "${word.text}"`);
+    const incomplete = fidelity.lines
+        .filter(line => line.some(word => !word.ok && !word.found))
+        .map(line => `"${line.map(word => word.text).join(' ')}"`);
+
+    return [
+        'Correct the text on this slide so it matches the planned copy exactly.',
+        misspelled.length > 0 && `Fix these misspellings: ${misspelled.join('; ')}.`,
+        incomplete.length > 0 && `Make sure these lines appear in full, word for word: ${incomplete.join('; ')}.`,
+        'Keep the fonts, colors, positions, images and everything else unchanged.',
+    ].filter(Boolean).join(' ');
+};
@@ -1,8 +1,41 @@
-import { defineConfig } from 'vite'
+import { readFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 import tailwindcss from '@tailwindcss/vite'
 
+const require = createRequire(import.meta.url)
+
+// tesseract.js fetches `${langPath}/eng.traineddata.gz` itself, so the file needs a fixed, unhashed path
+const OCR_LANGUAGE_FILE = 'tesseract/eng.traineddata.gz'
+
+/**
+ * Serves the English OCR model from our own origin: from node_modules in dev,
+ * and as a file of the build.
+ */
+const ocrLanguageData = (): Plugin => {
+  const source = require.resolve('@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz')
+  return {
+    name: 'ocr-language-data',
+    configureServer(server) {
+      server.middlewares.use(`/${OCR_LANGUAGE_FILE}`, (_req, res) => {
+        res.setHeader('Content-Type', 'application/gzip')
+        res.end(readFileSync(source))
+      })
+    },
+    generateBundle() {
+      this.emitFile({ type: 'asset', fileName: OCR_LANGUAGE_FILE, source: readFileSync(source) })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), ocrLanguageData()],
+  server: {
+    // Lets VITE_API_PROXY_URL=/api reach `npm run server` during development
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
 })